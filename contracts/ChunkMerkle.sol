@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Inclusion proofs for the chunk Merkle tree built by src/services/merkle.ts.
+// Leaves are sha256(0x00 || chunk), inner nodes sha256(0x01 || left || right),
+// and an odd node at the end of a level is promoted to the next level unchanged.
+library ChunkMerkle {
+    function hashLeaf(bytes calldata _chunk) internal pure returns (bytes32) {
+        return sha256(abi.encodePacked(bytes1(0x00), _chunk));
+    }
+
+    function hashNode(bytes32 _left, bytes32 _right) internal pure returns (bytes32) {
+        return sha256(abi.encodePacked(bytes1(0x01), _left, _right));
+    }
+
+    function verify(
+        bytes32 _root,
+        bytes32 _leaf,
+        uint256 _index,
+        uint256 _leafCount,
+        bytes32[] calldata _siblings
+    ) internal pure returns (bool) {
+        if (_index >= _leafCount) {
+            return false;
+        }
+
+        bytes32 hash = _leaf;
+        uint256 used = 0;
+        while (_leafCount > 1) {
+            if (_index % 2 == 1) {
+                if (used >= _siblings.length) return false;
+                hash = hashNode(_siblings[used++], hash);
+            } else if (_index + 1 < _leafCount) {
+                if (used >= _siblings.length) return false;
+                hash = hashNode(hash, _siblings[used++]);
+            }
+            // Otherwise this node was promoted and has no sibling at this level
+            _index >>= 1;
+            _leafCount = (_leafCount + 1) >> 1;
+        }
+
+        return used == _siblings.length && hash == _root;
+    }
+}
@@ -4,6 +4,7 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ChunkMerkle.sol";
 
 contract StorageMarket is ReentrancyGuard, Ownable {
     IERC20 public storageToken;
@@ -25,6 +26,8 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         address user;
         string fileHash;
         uint256 fileSize;
+        bytes32 merkleRoot; // root of the encrypted chunk tree, see ChunkMerkle
+        uint256 chunkCount;
         uint256 duration; // in seconds
         uint256 totalCost;
         address[] assignedProviders;
@@ -38,6 +41,7 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         string fileHash;
         address provider;
         bytes32 merkleRoot;
+        uint256 chunkIndex;
         uint256 timestamp;
         bool verified;
     }
@@ -57,7 +61,7 @@ contract StorageMarket is ReentrancyGuard, Ownable {
     event ProviderRegistered(address indexed provider, uint256 availableStorage, uint256 pricePerGB);
     event StorageRequested(address indexed user, string fileHash, uint256 fileSize, uint256 totalCost);
     event ProvidersAssigned(string fileHash, address[] providers);
-    event ProofSubmitted(string fileHash, address provider, bytes32 merkleRoot);
+    event ProofSubmitted(string fileHash, address provider, bytes32 merkleRoot, uint256 chunkIndex, bool verified);
     event PaymentReleased(address indexed provider, uint256 amount);
     event ProviderSlashed(address indexed provider, uint256 slashedAmount);
     event ReputationUpdated(address indexed provider, uint256 newReputation);
@@ -100,9 +104,13 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         string memory _fileHash,
         uint256 _fileSize,
         uint256 _duration,
-        uint256 _redundancy
+        uint256 _redundancy,
+        bytes32 _merkleRoot,
+        uint256 _chunkCount
     ) external nonReentrant {
         require(_fileSize > 0, "File size must be greater than 0");
+        require(_merkleRoot != bytes32(0), "Merkle root required");
+        require(_chunkCount > 0, "Chunk count must be greater than 0");
         require(_duration > 0, "Duration must be greater than 0");
         require(_redundancy >= 3 && _redundancy <= 10, "Redundancy must be between 3-10");
         
@@ -122,6 +130,8 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         request.user = msg.sender;
         request.fileHash = _fileHash;
         request.fileSize = _fileSize;
+        request.merkleRoot = _merkleRoot;
+        request.chunkCount = _chunkCount;
         request.duration = _duration;
         request.totalCost = totalCost;
         request.assignedProviders = selectedProviders;
@@ -155,38 +165,72 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         }
     }
     
+    // Prove possession of the challenged chunk with its Merkle inclusion proof
     function submitProofOfStorage(
         string memory _fileHash,
-        bytes32 _merkleRoot
+        uint256 _chunkIndex,
+        bytes calldata _chunk,
+        bytes32[] calldata _proof
     ) external {
         require(isAssignedProvider(_fileHash, msg.sender), "Not assigned to this file");
         require(providers[msg.sender].isActive, "Provider not active");
+        require(_chunkIndex == getChallengeIndex(_fileHash, msg.sender), "Not the challenged chunk");
+        
+        StorageRequest storage request = storageRequests[_fileHash];
+        bool verified = ChunkMerkle.verify(
+            request.merkleRoot,
+            ChunkMerkle.hashLeaf(_chunk),
+            _chunkIndex,
+            request.chunkCount,
+            _proof
+        );
         
         ProofOfStorage memory proof = ProofOfStorage({
             fileHash: _fileHash,
             provider: msg.sender,
-            merkleRoot: _merkleRoot,
+            merkleRoot: request.merkleRoot,
+            chunkIndex: _chunkIndex,
             timestamp: block.timestamp,
-            verified: false
+            verified: verified
         });
         
         proofs[_fileHash].push(proof);
         
-        emit ProofSubmitted(_fileHash, msg.sender, _merkleRoot);
+        emit ProofSubmitted(_fileHash, msg.sender, request.merkleRoot, _chunkIndex, verified);
         
-        // Auto-verify for now (in production, this would be more sophisticated)
         verifyProof(_fileHash, proofs[_fileHash].length - 1);
     }
     
     function verifyProof(string memory _fileHash, uint256 _proofIndex) internal {
         ProofOfStorage storage proof = proofs[_fileHash][_proofIndex];
-        proof.verified = true;
         
         // Update provider reputation
-        updateReputation(proof.provider, true);
+        updateReputation(proof.provider, proof.verified);
         
-        // Release payment
-        releasePayment(_fileHash, proof.provider);
+        // Only a valid proof releases payment
+        if (proof.verified) {
+            releasePayment(_fileHash, proof.provider);
+        }
+    }
+    
+    // Chunk a provider must prove this proof interval, different per provider
+    function getChallengeIndex(string memory _fileHash, address _provider) public view returns (uint256) {
+        StorageRequest storage request = storageRequests[_fileHash];
+        require(request.chunkCount > 0, "Unknown file");
+        
+        uint256 period = block.timestamp / PROOF_INTERVAL;
+        return uint256(keccak256(abi.encodePacked(_fileHash, _provider, period))) % request.chunkCount;
+    }
+    
+    // Same check as submitProofOfStorage, for off-chain callers
+    function verifyChunkProof(
+        bytes32 _merkleRoot,
+        bytes calldata _chunk,
+        uint256 _chunkIndex,
+        uint256 _chunkCount,
+        bytes32[] calldata _proof
+    ) external pure returns (bool) {
+        return ChunkMerkle.verify(_merkleRoot, ChunkMerkle.hashLeaf(_chunk), _chunkIndex, _chunkCount, _proof);
     }
     
     function updateReputation(address _provider, bool _success) internal {
@@ -317,6 +361,8 @@ contract StorageMarket is ReentrancyGuard, Ownable {
     function getStorageRequest(string memory _fileHash) external view returns (
         address user,
         uint256 fileSize,
+        bytes32 merkleRoot,
+        uint256 chunkCount,
         uint256 duration,
         uint256 totalCost,
         address[] memory assignedProviders,
@@ -326,6 +372,8 @@ contract StorageMarket is ReentrancyGuard, Ownable {
         return (
             request.user,
             request.fileSize,
+            request.merkleRoot,
+            request.chunkCount,
             request.duration,
             request.totalCost,
             request.assignedProviders,
@@ -0,0 +1,126 @@
+// Serves decrypted media at /stream/<manifestCid> so <video> and <audio>
+// elements can seek inside encrypted files. The Helia node and the file
+// keys live in the page, so every range is relayed to the page that
+// requested it (see src/services/mediaStream.ts), which fetches and
+// decrypts only the chunks covering that range.
+
+const STREAM_PATH = '/stream/';
+// How long the page gets to answer one range before the request fails
+const RANGE_TIMEOUT_MS = 60000;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+// Pages loaded with a hard reload start uncontrolled even though this worker
+// is active; they ask to be claimed
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'claim') {
+    event.waitUntil(self.clients.claim());
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(STREAM_PATH)) {
+    return;
+  }
+
+  const cid = decodeURIComponent(url.pathname.slice(STREAM_PATH.length));
+  event.respondWith(serveStream(event, cid));
+});
+
+async function serveStream(event, cid) {
+  const client = await findClient(event);
+  if (!client) {
+    return new Response('No open page can decrypt this stream', { status: 503 });
+  }
+
+  const range = event.request.headers.get('Range');
+  const first = await requestRange(client, cid, range || 'bytes=0-');
+  // No byte range of an empty file exists, but the file itself does
+  if (!first.ok && first.status === 416 && first.fileSize === 0) {
+    return new Response(null, {
+      status: 200,
+      headers: { 'Accept-Ranges': 'bytes', 'Cache-Control': 'no-store', 'Content-Length': '0' },
+    });
+  }
+  if (!first.ok) {
+    const headers = first.status === 416 ? { 'Content-Range': `bytes */${first.fileSize}` } : {};
+    return new Response(first.message, { status: first.status, headers });
+  }
+
+  const headers = {
+    'Content-Type': first.mimeType || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'no-store',
+  };
+
+  if (range) {
+    return new Response(first.data, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(first.end - first.start),
+        'Content-Range': `bytes ${first.start}-${first.end - 1}/${first.fileSize}`,
+      },
+    });
+  }
+
+  // No Range header: stream the whole file one window at a time
+  let next = first;
+  const body = new ReadableStream({
+    async pull(controller) {
+      if (!next) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(new Uint8Array(next.data));
+      if (next.end >= next.fileSize) {
+        next = null;
+        return;
+      }
+      const reply = await requestRange(client, cid, `bytes=${next.end}-`);
+      if (!reply.ok) {
+        controller.error(new Error(reply.message));
+        return;
+      }
+      next = reply;
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Length': String(first.fileSize) },
+  });
+}
+
+// The page that issued the request, or any open page as a fallback
+async function findClient(event) {
+  if (event.clientId) {
+    const client = await self.clients.get(event.clientId);
+    if (client) return client;
+  }
+  const windows = await self.clients.matchAll({ type: 'window' });
+  return windows[0];
+}
+
+function requestRange(client, cid, range) {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => {
+      channel.port1.close();
+      resolve({ ok: false, status: 504, message: 'Timed out waiting for decrypted data' });
+    }, RANGE_TIMEOUT_MS);
+
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      channel.port1.close();
+      resolve(event.data);
+    };
+    client.postMessage({ type: 'media-range', cid, range }, [channel.port2]);
+  });
+}
@@ -1,12 +1,31 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAccount, useWriteContract, useBalance } from 'wagmi';
+import { useAccount, useWriteContract, useBalance, useSignMessage, useSignTypedData } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAuth } from '@/hooks/useAuth';
+import { useVaultSession, IDLE_LOCK_OPTIONS } from '@/hooks/useVaultSession';
 import { uploadToIPFS, downloadFromIPFS } from '@/services/ipfs';
-import { EncryptionService, KeyManager } from '@/services/encryption';
+import { EncryptionService, KeyManager, ChunkingStrategy } from '@/services/encryption';
+import { vaultService, findWalletSlot, findPasskeySlots, normalizeRecoveryPhrase, RECOVERY_PHRASE_WORDS, RecoveryGuardian, VaultRecord } from '@/services/vault';
+import { isPasskeySupported, registerPasskey, evaluatePasskey } from '@/services/passkey';
+import { sharingService, ShareGrant } from '@/services/sharing';
+import { guardianService, GuardianShare } from '@/services/guardians';
+import { fileIndexService } from '@/services/fileIndex';
+import { fileKeyService } from '@/services/fileKeys';
+import { decodeShare, encodeShare, SecretShare } from '@/services/shamir';
+import { parseManifest, isSealedManifest, sealFileManifest, openManifest, deriveManifestKey, ManifestError, SealedManifest, StoredManifest } from '@/services/manifest';
+import { toUploadFile, uploadErasureCodedStream, downloadChunks, downloadFileChunks, saveStreamAsFile } from '@/services/fileTransfer';
+import { DEFAULT_ERASURE } from '@/services/erasure';
+import { payloadSize } from '@/services/compression';
+import { prepareFileInWorker, EncryptionProgress } from '@/services/encryptionWorker';
+import { openMediaStream, closeMediaStream, MediaStreamUnavailableError } from '@/services/mediaStream';
+import { exportKeyringBackup, importKeyringBackup, getKeyringBackupStatus, KeyringBackupStatus } from '@/services/keyringBackup';
+import { shredFile, undeletableKeyCopy, verifyDeletionReceipt } from '@/services/deletion';
+import { manifestTypedData, verifyManifestSignature, ManifestVerification } from '@/services/manifestSignature';
+import { changeKeyringPassword, getPendingPasswordChange, discardPasswordChange, PasswordChangeProgress } from '@/services/keyringPassword';
+import { TransferScheduler, TransferProgress, transferPercent } from '@/services/transferScheduler';
 import { 
   Upload, 
   Download, 
@@ -28,14 +47,25 @@ import {
   AlertCircle,
   CheckCircle,
   Loader2,
-  Zap
+  Zap,
+  Play,
+  Trash2,
+  X,
+  KeyRound,
+  LockOpen,
+  Fingerprint
 } from 'lucide-react';
 import Hyperspeed from './Hyperspeed';
+import VaultUnlockDialog, { VaultDialogRequest, VaultDialogAnswer } from './VaultUnlockDialog';
+import OwnerVerificationBadge from './OwnerVerificationBadge';
 
 // Contract addresses
 const STORAGE_MARKET_ADDRESS = process.env.NEXT_PUBLIC_STORAGE_MARKET_CONTRACT as `0x${string}`;
 const STORAGE_TOKEN_ADDRESS = process.env.NEXT_PUBLIC_STORAGE_TOKEN_CONTRACT as `0x${string}`;
 
+// Words of a new recovery phrase the user must type back before continuing
+const RECOVERY_PHRASE_CHECKS = 3;
+
 // Contract ABIs (simplified)
 const STORAGE_MARKET_ABI = [
   {
@@ -43,7 +73,9 @@ const STORAGE_MARKET_ABI = [
       {"internalType": "string", "name": "_fileHash", "type": "string"},
       {"internalType": "uint256", "name": "_fileSize", "type": "uint256"},
       {"internalType": "uint256", "name": "_duration", "type": "uint256"},
-      {"internalType": "uint256", "name": "_redundancy", "type": "uint256"}
+      {"internalType": "uint256", "name": "_redundancy", "type": "uint256"},
+      {"internalType": "bytes32", "name": "_merkleRoot", "type": "bytes32"},
+      {"internalType": "uint256", "name": "_chunkCount", "type": "uint256"}
     ],
     "name": "requestStorage",
     "outputs": [],
@@ -82,6 +114,7 @@ export default function AuthenticatedDashboard() {
     loading, 
     signOut, 
     linkWalletAddress, 
+    saveVaultRecord,
     registerAsProvider, 
     updateStorageUsage, 
     hasStorageSpace, 
@@ -91,17 +124,46 @@ export default function AuthenticatedDashboard() {
   
   const { address, isConnected } = useAccount();
   const [files, setFiles] = useState<FileRecord[]>([]);
+  const [sharedFiles, setSharedFiles] = useState<ShareGrant[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<EncryptionProgress | null>(null);
+  const [uploadTransfer, setUploadTransfer] = useState<TransferProgress | null>(null);
+  // Chunk transfers of downloads in progress, by file or grant id
+  const [downloads, setDownloads] = useState<Record<string, TransferProgress>>({});
+  const uploadAbort = useRef<AbortController | null>(null);
+  const [mediaPlayer, setMediaPlayer] = useState<{ cid: string; url: string; name: string; mimeType: string } | null>(null);
   const [activeTab, setActiveTab] = useState<'files' | 'provider' | 'marketplace' | 'profile'>('files');
   const [showPassword, setShowPassword] = useState(false);
   const [encryptionPassword, setEncryptionPassword] = useState('');
+  const [chunking, setChunking] = useState<ChunkingStrategy>('fixed');
   const [linkingWallet, setLinkingWallet] = useState(false);
+  const [backupStatus, setBackupStatus] = useState<KeyringBackupStatus | null>(null);
+  const [backingUp, setBackingUp] = useState(false);
+  const [deletingFile, setDeletingFile] = useState<string | null>(null);
+  // Owner signature checks of opened manifests, by file or grant id
+  const [ownerChecks, setOwnerChecks] = useState<Record<string, ManifestVerification>>({});
+  const [passwordChange, setPasswordChange] = useState<PasswordChangeProgress | null>(null);
+  const [pendingPasswordChange, setPendingPasswordChange] = useState<{ startedAt: number; staged: number } | null>(null);
+  const [recoveryPhrase, setRecoveryPhrase] = useState<{ words: string[]; checks: number[] } | null>(null);
+  const [phraseStep, setPhraseStep] = useState<'show' | 'verify'>('show');
+  const [phraseAnswers, setPhraseAnswers] = useState<string[]>([]);
+  const [phraseError, setPhraseError] = useState('');
+  const phraseConfirmed = useRef<(() => void) | null>(null);
+  const [recoveringVault, setRecoveringVault] = useState(false);
+  const [heldShares, setHeldShares] = useState<GuardianShare[]>([]);
+  const [releasedShare, setReleasedShare] = useState<{ id: string; text: string } | null>(null);
+  const [settingUpGuardians, setSettingUpGuardians] = useState(false);
+  const [vaultDialog, setVaultDialog] = useState<{ request: VaultDialogRequest; error: string; busy: boolean } | null>(null);
+  const vaultDialogAnswer = useRef<((answer: VaultDialogAnswer | null) => void) | null>(null);
+  const [addingPasskey, setAddingPasskey] = useState(false);
   const [notification, setNotification] = useState<{type: 'success' | 'error', message: string} | null>(null);
   const [uploadAnimation, setUploadAnimation] = useState<{
     show: boolean;
     phase: 'padlock' | 'splitting' | 'complete';
     fileName: string;
   }>({ show: false, phase: 'padlock', fileName: '' });
+  // An upload in flight still needs the vault to wrap its key
+  const vaultSession = useVaultSession(uploading || uploadAnimation.show);
   
   // Storage Provider Form State
   const [providerForm, setProviderForm] = useState({
@@ -116,6 +178,8 @@ export default function AuthenticatedDashboard() {
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
 
   const { writeContract } = useWriteContract();
+  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
 
   // Get user's token balance
   const { data: tokenBalance } = useBalance({
@@ -130,6 +194,7 @@ export default function AuthenticatedDashboard() {
 
   const handleSignOut = async () => {
     try {
+      vaultSession.lock();
       await signOut();
     } catch (error) {
       console.error('Sign out error:', error);
@@ -151,6 +216,167 @@ export default function AuthenticatedDashboard() {
     }
   };
 
+  // Show a new vault's recovery phrase, resolving once the user has re-entered
+  // a few of its words
+  const showRecoveryPhrase = useCallback((words: string[]) => new Promise<void>(resolve => {
+    const checks = new Set<number>();
+    while (checks.size < RECOVERY_PHRASE_CHECKS) {
+      checks.add(Math.floor(Math.random() * words.length));
+    }
+    phraseConfirmed.current = resolve;
+    setPhraseStep('show');
+    setPhraseAnswers([]);
+    setPhraseError('');
+    setRecoveryPhrase({ words, checks: [...checks].sort((a, b) => a - b) });
+  }), []);
+
+  const verifyRecoveryPhrase = () => {
+    if (!recoveryPhrase) return;
+    const matches = recoveryPhrase.checks.every(
+      (position, i) => normalizeRecoveryPhrase(phraseAnswers[i] ?? '')[0] === recoveryPhrase.words[position]
+    );
+    if (!matches) {
+      setPhraseError('Those words do not match your phrase. Go back and check it.');
+      return;
+    }
+
+    // The phrase is never shown again once confirmed
+    setRecoveryPhrase(null);
+    phraseConfirmed.current?.();
+    phraseConfirmed.current = null;
+  };
+
+  // Show the unlock dialog, or update it with the error from the last
+  // attempt, and wait for the user's next answer. Null means cancelled.
+  const askVaultDialog = useCallback((request: VaultDialogRequest, error = '') =>
+    new Promise<VaultDialogAnswer | null>(resolve => {
+      vaultDialogAnswer.current = resolve;
+      setVaultDialog({ request, error, busy: false });
+    }), []);
+
+  const answerVaultDialog = (answer: VaultDialogAnswer | null) => {
+    const resolve = vaultDialogAnswer.current;
+    vaultDialogAnswer.current = null;
+    // Stay open while the answer is tried, so a wrong password can be retyped
+    setVaultDialog(current => (answer && current ? { ...current, busy: true } : null));
+    resolve?.(answer);
+  };
+
+  const closeVaultDialog = useCallback(() => setVaultDialog(null), []);
+
+  // Unlock the user's vault, creating it on first use
+  const ensureVaultUnlocked = useCallback(async (): Promise<VaultRecord | null> => {
+    let record = userProfile?.vault;
+    if (record && vaultService.isUnlocked()) return record;
+
+    const created = !record;
+    const request: VaultDialogRequest = record
+      ? {
+          mode: 'unlock',
+          password: record.slots.some(s => s.type === 'password'),
+          wallet: !!address && !!findWalletSlot(record, address),
+          passkey: findPasskeySlots(record).length > 0,
+        }
+      : { mode: 'create', wallet: !!address };
+
+    try {
+      let error = '';
+      for (;;) {
+        const answer = await askVaultDialog(request, error);
+        if (!answer) return null;
+
+        try {
+          if (answer.method === 'wallet') {
+            if (!address) throw new Error('Connect your wallet first');
+            const signature = await signMessageAsync({ message: EncryptionService.walletKeyMessage(address) });
+            if (record) {
+              await vaultService.unlockWithWallet(record, address, signature);
+            } else {
+              // Deterministic, so the same wallet recovers the vault on any device
+              record = await vaultService.createVaultFromWallet(address, signature);
+            }
+          } else if (answer.method === 'passkey' && record) {
+            const { credentialId, prfOutput } = await evaluatePasskey(findPasskeySlots(record));
+            await vaultService.unlockWithPasskey(record, credentialId, prfOutput);
+          } else if (answer.method === 'password') {
+            // May come back re-wrapped with current KDF parameters, saved below
+            record = record
+              ? await vaultService.unlockWithPassword(record, answer.password)
+              : await vaultService.createVault(answer.password);
+          }
+          break;
+        } catch (attemptError) {
+          console.error('Vault unlock attempt failed:', attemptError);
+          error = attemptError instanceof Error ? attemptError.message : 'Failed to unlock vault';
+        }
+      }
+      closeVaultDialog();
+      if (!record) return null;
+
+      // Vaults get a sharing key pair so other users can share files to them
+      if (!record.identity) {
+        record = await vaultService.createIdentity(record);
+      }
+      if (record !== userProfile?.vault) {
+        await saveVaultRecord(record);
+      }
+      if (created) {
+        await showRecoveryPhrase(vaultService.getRecoveryPhrase());
+      }
+      return record;
+    } catch (error) {
+      console.error('Vault unlock failed:', error);
+      closeVaultDialog();
+      showNotification('error', error instanceof Error ? error.message : 'Failed to unlock vault');
+      return null;
+    }
+  }, [userProfile, address, saveVaultRecord, signMessageAsync, showRecoveryPhrase, askVaultDialog, closeVaultDialog]);
+
+  const handleToggleVault = async () => {
+    if (vaultSession.unlocked) {
+      vaultSession.lock();
+      showNotification('success', 'Vault locked.');
+    } else if (await ensureVaultUnlocked()) {
+      showNotification('success', 'Vault unlocked.');
+    }
+  };
+
+  // Let a passkey on this device unlock the vault
+  const handleAddPasskey = async () => {
+    if (!user || !userProfile) return;
+
+    setAddingPasskey(true);
+    try {
+      const record = await ensureVaultUnlocked();
+      if (!record) return;
+
+      const { credentialId, prfOutput, prfSalt } = await registerPasskey({
+        id: user.uid,
+        name: userProfile.email,
+        displayName: userProfile.displayName,
+      });
+      await saveVaultRecord(await vaultService.addPasskeySlot(record, credentialId, prfSalt, prfOutput));
+      showNotification('success', 'Passkey added. You can now unlock your vault with it.');
+    } catch (error) {
+      console.error('Adding passkey failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to add passkey');
+    } finally {
+      setAddingPasskey(false);
+    }
+  };
+
+  // Load files other users have shared with this account
+  useEffect(() => {
+    if (!user) return;
+
+    sharingService.listSharedWithMe(user.uid)
+      .then(setSharedFiles)
+      .catch(error => console.error('Failed to load shared files:', error));
+    guardianService.listHeldShares(user.uid)
+      .then(setHeldShares)
+      .catch(error => console.error('Failed to load guardian shares:', error));
+  }, [user]);
+
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !user || !userProfile) return;
@@ -162,6 +388,13 @@ export default function AuthenticatedDashboard() {
       return;
     }
 
+    // Files without their own password get a key wrapped by the vault, and
+    // deduplicating uploads derive their chunk keys from the vault
+    if ((!encryptionPassword || chunking === 'content-defined') && !(await ensureVaultUnlocked())) {
+      event.target.value = '';
+      return;
+    }
+
     // Start animation sequence
     setUploadAnimation({ show: true, phase: 'padlock', fileName: file.name });
 
@@ -173,51 +406,57 @@ export default function AuthenticatedDashboard() {
       setTimeout(async () => {
         setUploadAnimation({ show: false, phase: 'complete', fileName: '' });
         setUploading(true);
+        const abort = new AbortController();
+        uploadAbort.current = abort;
 
         try {
-          // Prepare file for storage (encrypt and chunk)
-          const prepared = await EncryptionService.prepareFileForStorage(
+          // Encrypt the file chunk by chunk in a worker, uploading each chunk as it is produced
+          const prepared = await prepareFileInWorker(
             file,
-            encryptionPassword || undefined
+            encryptionPassword || undefined,
+            {
+              chunking,
+              convergenceKey: chunking === 'content-defined' ? await vaultService.getConvergenceKey() : undefined,
+              onProgress: setUploadProgress,
+              signal: abort.signal
+            }
           );
-
-          // Upload chunks to IPFS
-          const chunkHashes: string[] = [];
-          for (let i = 0; i < prepared.chunks.length; i++) {
-            const chunk = prepared.chunks[i];
-            const chunkArray = new Uint8Array(chunk);
-            const chunkBlob = new Blob([chunkArray]);
-            const chunkFile = Object.assign(chunkBlob, {
-              name: `chunk_${i}`,
-              lastModified: Date.now(),
-            }) as File;
-            const chunkHash = await uploadToIPFS(chunkFile);
-            chunkHashes.push(chunkHash);
-          }
-
-          // Create main metadata file
-          const metadataWithChunks = {
-            ...prepared.metadata,
-            chunkHashes,
+          const { chunkHashes, erasure, reusedChunks } = await uploadErasureCodedStream(prepared.chunks, DEFAULT_ERASURE, {
+            scheduler: new TransferScheduler({ signal: abort.signal, onProgress: setUploadTransfer })
+          });
+          const metadata = await prepared.finalize();
+
+          // Seal the manifest so only the key holder can see what was stored,
+          // signed by the linked wallet when it is the one connected
+          const signer = isConnected && address && address.toLowerCase() === userProfile.walletAddress?.toLowerCase()
+            ? address
+            : undefined;
+          // Vault uploads keep their key deletable, see fileKeys.ts
+          const vaultWrapped = encryptionPassword ? undefined : await vaultService.wrapFileKeyForRecord(prepared.key);
+          const manifest = await sealFileManifest(metadata, chunkHashes, prepared.key, {
             userId: user.uid,
-            encryptionKey: encryptionPassword ? undefined : EncryptionService.arrayBufferToBase64(await EncryptionService.exportKey(prepared.key))
-          };
-
-          const metadataString = JSON.stringify(metadataWithChunks);
-          const metadataBlob = new Blob([metadataString]);
-          const metadataFile = Object.assign(metadataBlob, {
-            name: `${file.name}.metadata`,
-            lastModified: Date.now(),
-          }) as File;
-          const metadataHash = await uploadToIPFS(metadataFile);
+            recordWrappedKey: vaultWrapped?.wrappedKey,
+            erasure,
+            sign: signer && (async body => ({
+              owner: signer,
+              signature: await signTypedDataAsync(manifestTypedData(body, signer))
+            }))
+          });
+          const metadataHash = await uploadToIPFS(toUploadFile(JSON.stringify(manifest), 'manifest'));
+          if (vaultWrapped) {
+            await fileKeyService.saveFileKey(user.uid, metadataHash, vaultWrapped.recordKey);
+          }
 
           // Store encryption key if password was used
           if (encryptionPassword) {
-            await KeyManager.storeKey(metadataHash, prepared.key, encryptionPassword);
+            await KeyManager.storeKey(metadataHash, prepared.key, encryptionPassword, file.name);
+            vaultService.rememberFileKey(metadataHash, prepared.key);
           }
 
-          // Update storage usage
-          await updateStorageUsage(file.size);
+          // Charge for what was stored, which is less than the file if it compressed
+          await updateStorageUsage(payloadSize(metadata));
+          // Lets a recovered vault find the file from another device
+          await fileIndexService.addFile(user.uid, metadataHash);
 
           // Add to local state
           const newFile: FileRecord = {
@@ -227,86 +466,716 @@ export default function AuthenticatedDashboard() {
             uploadDate: new Date().toLocaleDateString(),
             ipfsHash: metadataHash,
             isEncrypted: true,
-            chunks: prepared.chunks.length,
+            chunks: metadata.chunkCount,
             cost: '0.001', // Mock cost
             status: 'stored'
           };
 
           setFiles(prev => [...prev, newFile]);
-          showNotification('success', 'File uploaded successfully to decentralized storage!');
+          showNotification('success', reusedChunks > 0
+            ? `File uploaded! ${reusedChunks} of ${metadata.chunkCount} chunks were already stored and reused.`
+            : 'File uploaded successfully to decentralized storage!');
 
         } catch (error) {
-          console.error('Upload failed:', error);
-          showNotification('error', 'Upload failed. Please try again.');
+          if (error instanceof DOMException && error.name === 'AbortError') {
+            showNotification('error', 'Upload cancelled.');
+          } else {
+            console.error('Upload failed:', error);
+            showNotification('error', 'Upload failed. Please try again.');
+          }
         } finally {
+          uploadAbort.current = null;
+          setUploadProgress(null);
+          setUploadTransfer(null);
           setUploading(false);
+          // A file password applies to one upload, never to the next
+          setEncryptionPassword('');
           event.target.value = '';
         }
       }, 4000);
     }, 1500);
-  }, [user, userProfile, encryptionPassword, hasStorageSpace, updateStorageUsage]);
+  }, [user, userProfile, encryptionPassword, chunking, hasStorageSpace, updateStorageUsage, ensureVaultUnlocked, isConnected, address, signTypedDataAsync]);
+
+  // Recover the file key named by a sealed manifest header. Sharing needs an
+  // extractable key so it can be wrapped for the recipient.
+  const resolveManifestKey = async (
+    manifest: SealedManifest,
+    file: FileRecord,
+    extractable = false
+  ): Promise<CryptoKey | null> => {
+    const { header } = manifest;
+    if (header.recordWrappedKey) {
+      if (!user || !(await ensureVaultUnlocked())) return null;
+      const recordKey = await fileKeyService.getFileKey(user.uid, file.ipfsHash);
+      if (!recordKey) {
+        throw new Error('This file was deleted: its key no longer exists');
+      }
+      return vaultService.unwrapFileKeyFromRecord(header.recordWrappedKey, recordKey);
+    }
+    if (header.wrappedKey) {
+      if (!(await ensureVaultUnlocked())) return null;
+      return vaultService.unwrapFileKey(header.wrappedKey);
+    }
+
+    // Keys opened earlier in the session are not extractable
+    const remembered = extractable ? undefined : vaultService.getRememberedFileKey(file.ipfsHash);
+    if (remembered) return remembered;
+
+    try {
+      let error = '';
+      for (;;) {
+        const answer = await askVaultDialog({ mode: 'file-password', fileName: file.name }, error);
+        if (answer?.method !== 'password') return null;
+
+        // Prefer the locally kept key, falling back to the KDF parameters in the header
+        const key = (await KeyManager.retrieveKey(file.ipfsHash, answer.password, { extractable }))
+          ?? (await deriveManifestKey(header, answer.password));
+        try {
+          await openManifest(manifest, key);
+        } catch {
+          error = 'Incorrect password for this file';
+          continue;
+        }
+
+        if (!extractable) {
+          vaultService.rememberFileKey(file.ipfsHash, key);
+        }
+        return key;
+      }
+    } finally {
+      closeVaultDialog();
+    }
+  };
+
+  // A scheduler whose progress shows on one row's download button
+  const trackDownload = (id: string) => new TransferScheduler({
+    onProgress: progress => setDownloads(prev => ({ ...prev, [id]: progress }))
+  });
+
+  const untrackDownload = (id: string) => {
+    setDownloads(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // Open the manifest body and check who signed it before fetching any
+  // chunks, then stream the file to disk. Returns false if the user backs
+  // out after a failed owner check.
+  const saveSealedFile = async (
+    manifest: SealedManifest,
+    key: CryptoKey,
+    owner: { checkId: string; wallet: string | undefined }
+  ): Promise<boolean> => {
+    const body = await openManifest(manifest, key);
+    const verification = await verifyManifestSignature(body, owner.wallet);
+    setOwnerChecks(prev => ({ ...prev, [owner.checkId]: verification }));
+    if (verification.status === 'invalid' || verification.status === 'missing') {
+      showNotification('error', `Owner verification failed: ${verification.reason}`);
+      if (!confirm(
+        `WARNING: this file could not be verified as coming from its owner.\n\n${verification.reason}.\n\n` +
+        'It may have been replaced or tampered with. Download it anyway?'
+      )) {
+        return false;
+      }
+    }
+
+    const plaintext = EncryptionService.reconstructFileStream(
+      downloadFileChunks(body, trackDownload(owner.checkId)),
+      body,
+      key
+    );
+    await saveStreamAsFile(plaintext, body.fileName, body.mimeType);
+    return true;
+  };
+
+  const showDownloadError = (error: unknown) => {
+    console.error('Download failed:', error);
+    if (error instanceof ManifestError) {
+      showNotification('error', `Invalid file manifest (${error.message})`);
+    } else {
+      showNotification('error', 'Download failed. File may be corrupted or key is invalid.');
+    }
+  };
 
   const handleDownload = async (file: FileRecord) => {
     try {
-      // Download metadata
-      const metadataData = await downloadFromIPFS(file.ipfsHash);
-      const metadata = JSON.parse(new TextDecoder().decode(metadataData));
-
-      // Download all chunks
-      const chunks: ArrayBuffer[] = [];
-      for (const chunkHash of metadata.chunkHashes) {
-        const chunkData = await downloadFromIPFS(chunkHash);
-        let arrayBuffer: ArrayBuffer;
-        if (chunkData instanceof ArrayBuffer) {
-          arrayBuffer = chunkData;
-        } else if (chunkData instanceof Uint8Array) {
-          arrayBuffer = chunkData.buffer.slice(chunkData.byteOffset, chunkData.byteOffset + chunkData.byteLength) as ArrayBuffer;
-        } else {
-          const uint8Array = new Uint8Array(chunkData as ArrayBufferLike);
-          arrayBuffer = uint8Array.buffer.slice(uint8Array.byteOffset, uint8Array.byteOffset + uint8Array.byteLength) as ArrayBuffer;
+      // Download and validate metadata
+      const metadata = parseManifest(await downloadFromIPFS(file.ipfsHash));
+
+      if (isSealedManifest(metadata)) {
+        // Recover the file key from the public header
+        const key = await resolveManifestKey(metadata, file);
+        if (!key) return;
+        if (await saveSealedFile(metadata, key, { checkId: file.id, wallet: userProfile?.walletAddress })) {
+          showNotification('success', 'File downloaded successfully!');
         }
-        chunks.push(arrayBuffer);
+        return;
       }
 
       // Get decryption key
       let key: CryptoKey;
-      if (metadata.encryptionKey) {
+      if (metadata.wrappedKey) {
+        if (!(await ensureVaultUnlocked())) return;
+        key = await vaultService.unwrapFileKey(metadata.wrappedKey);
+      } else if (metadata.encryptionKey) {
+        // Uploads from before the vault published their raw key
         const keyBuffer = EncryptionService.base64ToArrayBuffer(metadata.encryptionKey);
         key = await EncryptionService.importKey(keyBuffer);
       } else {
-        const password = prompt('Enter decryption password:');
-        if (!password) return;
-        
-        const retrievedKey = await KeyManager.retrieveKey(file.ipfsHash, password);
+        let retrievedKey = vaultService.getRememberedFileKey(file.ipfsHash) ?? null;
+        if (!retrievedKey) {
+          const answer = await askVaultDialog({ mode: 'file-password', fileName: file.name });
+          closeVaultDialog();
+          if (answer?.method !== 'password') return;
+          retrievedKey = await KeyManager.retrieveKey(file.ipfsHash, answer.password);
+        }
         if (!retrievedKey) {
           showNotification('error', 'Invalid password or key not found');
           return;
         }
+        vaultService.rememberFileKey(file.ipfsHash, retrievedKey);
         key = retrievedKey;
       }
 
-      // Reconstruct and decrypt file
-      const reconstructedFile = await EncryptionService.reconstructFileFromChunks(
-        chunks,
-        metadata,
+      if (metadata.encryption === 'aes-gcm-stream') {
+        // Fetch and decrypt chunk by chunk without holding the whole file
+        const plaintext = EncryptionService.reconstructFileStream(
+          downloadChunks(metadata.chunkHashes, trackDownload(file.id)),
+          metadata,
+          key
+        );
+        await saveStreamAsFile(plaintext, metadata.fileName, metadata.mimeType);
+      } else {
+        // Legacy single-blob files need every chunk before decrypting
+        const chunks: ArrayBuffer[] = [];
+        for await (const chunk of downloadChunks(metadata.chunkHashes, trackDownload(file.id))) {
+          chunks.push(chunk);
+        }
+
+        const reconstructedFile = await EncryptionService.reconstructFileFromChunks(
+          chunks,
+          metadata,
+          key
+        );
+        await saveStreamAsFile(reconstructedFile.stream(), reconstructedFile.name, reconstructedFile.type);
+      }
+
+      showNotification('success', 'File downloaded successfully!');
+
+    } catch (error) {
+      showDownloadError(error);
+    } finally {
+      untrackDownload(file.id);
+    }
+  };
+
+  const handleShare = async (file: FileRecord) => {
+    if (!user || !userProfile) return;
+
+    const email = prompt(`Share "${file.name}" with (email address):`);
+    if (!email) return;
+
+    try {
+      const recipient = await sharingService.findRecipient(email);
+
+      const manifest = parseManifest(await downloadFromIPFS(file.ipfsHash));
+      if (!isSealedManifest(manifest)) {
+        throw new Error('Files uploaded before sealed manifests cannot be shared');
+      }
+
+      const key = await resolveManifestKey(manifest, file, true);
+      if (!key) return;
+      // Make sure the key really opens this file before handing it out
+      await openManifest(manifest, key);
+
+      await sharingService.shareFile(
+        { uid: user.uid, displayName: userProfile.displayName },
+        recipient,
+        { manifestCid: file.ipfsHash, fileName: file.name, fileSize: file.size },
         key
       );
+      showNotification('success', `Shared ${file.name} with ${recipient.displayName}`);
+    } catch (error) {
+      console.error('Share failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to share file');
+    }
+  };
 
-      // Download file
-      const url = URL.createObjectURL(reconstructedFile);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = reconstructedFile.name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  // Crypto-shred a file: destroy every reachable copy of its key, remove
+  // its blocks from this node and hand the user a receipt
+  const handleDelete = async (file: FileRecord) => {
+    if (!user) return;
+    if (!confirm(`Delete "${file.name}"? Its key is destroyed and the file can never be opened again.`)) return;
 
-      showNotification('success', 'File downloaded successfully!');
+    setDeletingFile(file.id);
+    try {
+      let manifest: StoredManifest | null = null;
+      try {
+        manifest = parseManifest(await downloadFromIPFS(file.ipfsHash));
+      } catch (error) {
+        console.error(`Could not fetch the manifest of ${file.name}:`, error);
+      }
 
+      // The key is needed to list the chunks and to name it in the receipt
+      let key: CryptoKey | null = null;
+      if (manifest && isSealedManifest(manifest)) {
+        key = await resolveManifestKey(manifest, file, true).catch(() => null);
+      }
+      if (manifest && isSealedManifest(manifest) && !key &&
+        !confirm('Without the file key its chunks cannot be found and stay stored. Destroy the key anyway?')) {
+        return;
+      }
+      const keptKey = manifest && undeletableKeyCopy(manifest);
+      if (keptKey && !confirm(`${file.name} cannot be shredded. ${keptKey} Remove it from your files anyway?`)) {
+        return;
+      }
+
+      const receipt = await shredFile(
+        { ownerUid: user.uid, manifestCid: file.ipfsHash, fileName: file.name, manifest, key },
+        updateStorageUsage
+      );
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      await fileIndexService.removeFile(user.uid, file.ipfsHash).catch(() => {
+        // A leftover entry only names a manifest nothing can open any more
+      });
+
+      const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+      await saveStreamAsFile(blob.stream(), `deletion-receipt-${file.name}.json`, blob.type);
+      showNotification('success', receipt.shredded
+        ? `${file.name} deleted. Keep the downloaded receipt as proof.`
+        : `${file.name} removed, but not shredded: its key outlives the deletion. The receipt lists what is left.`);
     } catch (error) {
-      console.error('Download failed:', error);
-      showNotification('error', 'Download failed. File may be corrupted or key is invalid.');
+      console.error('Delete failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to delete file');
+    } finally {
+      setDeletingFile(null);
+    }
+  };
+
+  const handleVerifyReceipt = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { intact, findings } = await verifyDeletionReceipt(file);
+      if (!intact) {
+        showNotification('error', 'This receipt was edited after it was issued.');
+      } else if (findings.length > 0) {
+        showNotification('error', `Receipt is intact, but: ${findings.join(' ')}`);
+      } else {
+        showNotification('success', 'Receipt is intact and every destroyed copy is still gone.');
+      }
+    } catch (error) {
+      console.error('Receipt check failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to check the receipt');
+    }
+  };
+
+  // Play audio or video straight from its encrypted chunks through the stream service worker
+  const handlePlay = async (file: FileRecord) => {
+    try {
+      const manifest = parseManifest(await downloadFromIPFS(file.ipfsHash));
+      if (!isSealedManifest(manifest)) {
+        throw new ManifestError('playback needs a sealed manifest');
+      }
+
+      const key = await resolveManifestKey(manifest, file);
+      if (!key) return;
+      const body = await openManifest(manifest, key);
+      if (!/^(video|audio)\//.test(body.mimeType)) {
+        showNotification('error', 'Only audio and video files can be played in the browser.');
+        return;
+      }
+
+      let url: string;
+      try {
+        url = await openMediaStream(file.ipfsHash, body, key);
+      } catch (error) {
+        if (!(error instanceof MediaStreamUnavailableError)) throw error;
+        // Without the service worker the whole file is decrypted before playing
+        console.warn('Streaming unavailable, decrypting the whole file:', error);
+        const plaintext = EncryptionService.reconstructFileStream(
+          downloadFileChunks(body, trackDownload(file.id)),
+          body,
+          key
+        );
+        try {
+          const blob = await new Response(plaintext).blob();
+          url = URL.createObjectURL(new Blob([blob], { type: body.mimeType }));
+        } finally {
+          untrackDownload(file.id);
+        }
+      }
+      setMediaPlayer({ cid: file.ipfsHash, url, name: body.fileName, mimeType: body.mimeType });
+    } catch (error) {
+      console.error('Playback failed:', error);
+      if (error instanceof ManifestError) {
+        showNotification('error', `Invalid file manifest (${error.message})`);
+      } else {
+        showNotification('error', 'Playback failed. File may be corrupted or key is invalid.');
+      }
+    }
+  };
+
+  const closeMediaPlayer = () => {
+    if (mediaPlayer) {
+      closeMediaStream(mediaPlayer.cid);
+    }
+    setMediaPlayer(null);
+  };
+
+  // The session closes every media stream when the vault locks; drop the player with them
+  useEffect(() => {
+    if (!vaultSession.unlocked) {
+      setMediaPlayer(null);
+    }
+  }, [vaultSession.unlocked]);
+
+  // Files decrypted whole, without the service worker, go with their player
+  const mediaUrl = mediaPlayer?.url;
+  useEffect(() => () => {
+    if (mediaUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(mediaUrl);
+    }
+  }, [mediaUrl]);
+
+  const refreshBackupStatus = useCallback(() => {
+    getKeyringBackupStatus()
+      .then(setBackupStatus)
+      .catch(error => console.error('Failed to read keyring backup status:', error));
+    setPendingPasswordChange(getPendingPasswordChange());
+  }, []);
+
+  // Check for an outdated key backup whenever the profile is opened
+  useEffect(() => {
+    if (activeTab === 'profile') {
+      refreshBackupStatus();
+    }
+  }, [activeTab, refreshBackupStatus]);
+
+  const handleExportKeys = async () => {
+    const passphrase = prompt('Choose a passphrase for the backup file. You will need it to restore your keys:');
+    if (!passphrase) return;
+    if (prompt('Enter the backup passphrase again:') !== passphrase) {
+      showNotification('error', 'Passphrases do not match.');
+      return;
+    }
+
+    setBackingUp(true);
+    try {
+      const backup = await exportKeyringBackup(passphrase);
+      const date = new Date().toISOString().slice(0, 10);
+      await saveStreamAsFile(backup.stream(), `web3-dropbox-keys-${date}.json`, backup.type);
+      showNotification('success', 'Key backup downloaded. Keep it somewhere safe.');
+    } catch (error) {
+      console.error('Key backup failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to back up keys');
+    } finally {
+      setBackingUp(false);
+      refreshBackupStatus();
+    }
+  };
+
+  const handleImportKeys = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after a wrong passphrase
+    event.target.value = '';
+    if (!file) return;
+
+    const passphrase = prompt('Enter the passphrase of this backup:');
+    if (!passphrase) return;
+
+    setBackingUp(true);
+    try {
+      const { added, updated, unchanged } = await importKeyringBackup(file, passphrase);
+      showNotification('success', `Keys restored: ${added} added, ${updated} updated, ${unchanged} already present.`);
+    } catch (error) {
+      console.error('Key restore failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to restore keys');
+    } finally {
+      setBackingUp(false);
+      refreshBackupStatus();
+    }
+  };
+
+  // Move every password-protected key on this device to a new password.
+  // A change cut short, e.g. by closing the tab, resumes where it stopped.
+  const handleChangeKeyPassword = async () => {
+    if (!user) return;
+    const resuming = pendingPasswordChange !== null;
+    if (!resuming && !confirm(
+      'This changes the password of the keys stored on this device and re-seals the files uploaded with it under the new one. ' +
+      'Copies of their old manifests fetched by other nodes still open with the old password. Continue?'
+    )) return;
+    const oldPassword = prompt(resuming
+      ? 'Resume the unfinished password change. Enter the current key password:'
+      : 'Enter the current password of your stored keys:');
+    if (!oldPassword) return;
+    const newPassword = prompt(resuming ? 'Enter the new password you chose for it:' : 'Choose a new password:');
+    if (!newPassword) return;
+    if (!resuming && prompt('Enter the new password again:') !== newPassword) {
+      showNotification('error', 'Passwords do not match.');
+      return;
+    }
+
+    setPasswordChange({ stage: 'keys', done: 0, total: 0 });
+    try {
+      const { changed, alreadyChanged, otherPassword, resealed, notResealed } =
+        await changeKeyringPassword(user.uid, oldPassword, newPassword, setPasswordChange);
+      // Re-sealed files now live at their new manifests
+      setFiles(prev => prev.map(file => resealed[file.ipfsHash]
+        ? { ...file, id: resealed[file.ipfsHash], ipfsHash: resealed[file.ipfsHash] }
+        : file));
+
+      if (changed === 0 && alreadyChanged === 0) {
+        showNotification('error', 'That password does not open any of your stored keys.');
+      } else if (notResealed.length > 0) {
+        showNotification(
+          'error',
+          `Password changed for ${changed + alreadyChanged} keys, but these files still open with the old password. Resume the change to re-seal them: ${notResealed.map(entry => entry.label).join(', ')}`
+        );
+      } else if (otherPassword.length > 0) {
+        showNotification(
+          'error',
+          `Password changed for ${changed + alreadyChanged} keys. ${otherPassword.length} use a different password and were left as they were: ${otherPassword.map(entry => entry.label).join(', ')}`
+        );
+      } else {
+        const count = Object.keys(resealed).length;
+        showNotification('success', `Password changed for ${changed + alreadyChanged} keys${count > 0 ? ` and ${count} files re-sealed under it` : ''}.`);
+      }
+    } catch (error) {
+      console.error('Key password change failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to change the key password');
+    } finally {
+      setPasswordChange(null);
+      refreshBackupStatus();
+    }
+  };
+
+  const handleDiscardPasswordChange = () => {
+    if (!confirm('Discard the unfinished password change? Your keys keep their current password.')) return;
+    discardPasswordChange();
+    setPendingPasswordChange(null);
+  };
+
+  // Save a recovered vault and unwrap every vault-wrapped file key to
+  // confirm the files open again
+  const finishVaultRecovery = async (recovered: VaultRecord) => {
+    let record = recovered;
+    if (!record.identity) {
+      record = await vaultService.createIdentity(record);
+    }
+    await saveVaultRecord(record);
+
+    // A recovering device usually has no files listed yet, so go by the
+    // account's file index as well as what this page has seen
+    let indexed: string[] = [];
+    let indexUnavailable = false;
+    try {
+      indexed = user ? await fileIndexService.listFiles(user.uid) : [];
+    } catch {
+      indexUnavailable = true;
+    }
+    const names = new Map<string, string>(indexed.map(cid => [cid, `file ${cid.substring(0, 12)}...`]));
+    files.forEach(file => names.set(file.ipfsHash, file.name));
+
+    let unwrapped = 0;
+    const failed: string[] = [];
+    for (const [cid, name] of names) {
+      try {
+        const manifest = parseManifest(await downloadFromIPFS(cid));
+        const recordWrappedKey = isSealedManifest(manifest) ? manifest.header.recordWrappedKey : undefined;
+        const wrappedKey = isSealedManifest(manifest) ? manifest.header.wrappedKey : manifest.wrappedKey;
+        if (recordWrappedKey && user) {
+          const recordKey = await fileKeyService.getFileKey(user.uid, cid);
+          if (!recordKey) continue; // Deleted; only its index entry was left
+          await vaultService.unwrapFileKeyFromRecord(recordWrappedKey, recordKey);
+        } else if (wrappedKey) {
+          await vaultService.unwrapFileKey(wrappedKey);
+        } else {
+          continue;
+        }
+        unwrapped++;
+      } catch (error) {
+        console.error(`Could not unwrap the key of ${name}:`, error);
+        failed.push(name);
+      }
+    }
+
+    if (indexUnavailable) {
+      showNotification('error', `Vault recovered, but your file list could not be loaded, so only ${unwrapped} file keys were checked.`);
+    } else if (failed.length > 0) {
+      showNotification('error', `Vault recovered, but these files could not be restored: ${failed.join(', ')}`);
+    } else {
+      showNotification('success', `Vault recovered. ${unwrapped} file keys unwrapped.`);
+    }
+  };
+
+  // Rebuild the vault from its recovery phrase under a new password
+  const handleRecoverVault = async () => {
+    const phrase = prompt(`Enter your ${RECOVERY_PHRASE_WORDS}-word recovery phrase:`);
+    if (!phrase) return;
+    const password = prompt('Choose a new vault password:');
+    if (!password) return;
+
+    setRecoveringVault(true);
+    try {
+      await finishVaultRecovery(await vaultService.recoverWithPhrase(phrase, password, userProfile?.vault));
+    } catch (error) {
+      console.error('Vault recovery failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to recover vault');
+    } finally {
+      setRecoveringVault(false);
+    }
+  };
+
+  // Collect guardian shares until there are enough to rebuild the vault
+  const handleRecoverWithShares = async () => {
+    const shares: SecretShare[] = [];
+    let threshold = 2;
+    while (shares.length < threshold) {
+      const text = prompt(shares.length === 0
+        ? 'Enter a recovery share:'
+        : `Enter recovery share ${shares.length + 1} of ${threshold}:`);
+      if (!text) return;
+
+      try {
+        const share = await decodeShare(text);
+        if (shares.some(s => s.index === share.index)) {
+          showNotification('error', 'You already entered that share.');
+          continue;
+        }
+        shares.push(share);
+        threshold = share.threshold;
+      } catch (error) {
+        showNotification('error', error instanceof Error ? error.message : 'Invalid recovery share');
+      }
+    }
+
+    const password = prompt('Choose a new vault password:');
+    if (!password) return;
+
+    setRecoveringVault(true);
+    try {
+      await finishVaultRecovery(await vaultService.recoverWithShares(shares, password, userProfile?.vault));
+    } catch (error) {
+      console.error('Vault recovery failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to recover vault');
+    } finally {
+      setRecoveringVault(false);
+    }
+  };
+
+  // Split the master key between guardian accounts and printable shares
+  const handleSetupGuardians = async () => {
+    if (!user || !userProfile) return;
+
+    const emailInput = prompt('Guardian account emails, separated by commas. Leave empty to use printed shares only:');
+    if (emailInput === null) return;
+    const emails = emailInput.split(',').map(email => email.trim()).filter(email => email.length > 0);
+    const printedInput = prompt('How many printable shares should be created?', emails.length > 0 ? '0' : '3');
+    if (printedInput === null) return;
+    const printedCount = Number(printedInput);
+    const count = emails.length + printedCount;
+    const thresholdInput = prompt(`How many of the ${count} shares should it take to recover your vault?`, String(Math.min(2, count)));
+    if (thresholdInput === null) return;
+    const threshold = Number(thresholdInput);
+
+    if (!Number.isInteger(printedCount) || printedCount < 0 || !Number.isInteger(threshold) || threshold < 2 || threshold > count) {
+      showNotification('error', 'Recovery needs at least 2 shares, and no more than you create.');
+      return;
+    }
+
+    setSettingUpGuardians(true);
+    try {
+      const record = await ensureVaultUnlocked();
+      if (!record) return;
+
+      const accounts = await Promise.all(emails.map(email => sharingService.findRecipient(email)));
+      const shares = vaultService.splitMasterKey(threshold, count);
+      const printed = shares.slice(accounts.length);
+
+      await guardianService.distributeShares(
+        { uid: user.uid, displayName: userProfile.displayName },
+        accounts.map((guardian, i) => ({ guardian, share: shares[i] }))
+      );
+
+      if (printed.length > 0) {
+        const pages = await Promise.all(printed.map(async share => [
+          `Web3 Dropbox vault recovery share ${share.index} of ${count}`,
+          `Account: ${userProfile.email}`,
+          `Any ${threshold} shares rebuild the vault. Keep this one apart from the others.`,
+          '',
+          await encodeShare(share),
+        ].join('\n')));
+        // Form feeds put each share on its own printed page
+        const sheet = new Blob([pages.join('\n\f')], { type: 'text/plain' });
+        await saveStreamAsFile(sheet.stream(), 'web3-dropbox-recovery-shares.txt', sheet.type);
+      }
+
+      const guardians: RecoveryGuardian[] = [
+        ...accounts.map((guardian, i): RecoveryGuardian => ({
+          type: 'account',
+          index: shares[i].index,
+          uid: guardian.uid,
+          displayName: guardian.displayName,
+        })),
+        ...printed.map((share): RecoveryGuardian => ({ type: 'printed', index: share.index })),
+      ];
+      const setId = shares[0].setId;
+      await saveVaultRecord({ ...record, recovery: { setId, threshold, guardians, createdAt: Date.now() } });
+      // Account shares of an older set are withdrawn; printed ones must be destroyed by hand
+      await guardianService.revokeSharesExcept(user.uid, setId);
+
+      showNotification('success', `Recovery set up: any ${threshold} of ${count} shares rebuild your vault.`);
+    } catch (error) {
+      console.error('Guardian setup failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to set up guardians');
+    } finally {
+      setSettingUpGuardians(false);
+    }
+  };
+
+  // Reveal a share held for someone else so it can be handed back to them
+  const handleReleaseShare = async (share: GuardianShare) => {
+    if (!confirm(`Only release this share if ${share.ownerName} asked you for it through a channel you trust. Continue?`)) return;
+
+    try {
+      const record = await ensureVaultUnlocked();
+      if (!record?.identity) return;
+
+      const privateKey = await vaultService.getIdentityPrivateKey(record.identity);
+      const text = await guardianService.openShare(share, privateKey, record.identity.publicKey);
+      setReleasedShare({ id: share.id, text });
+    } catch (error) {
+      console.error('Releasing share failed:', error);
+      showNotification('error', error instanceof Error ? error.message : 'Failed to open recovery share');
+    }
+  };
+
+  const handleSharedDownload = async (grant: ShareGrant) => {
+    try {
+      const record = await ensureVaultUnlocked();
+      if (!record?.identity) return;
+
+      const privateKey = await vaultService.getIdentityPrivateKey(record.identity);
+      const key = await sharingService.openGrant(grant, privateKey, record.identity.publicKey);
+
+      const manifest = parseManifest(await downloadFromIPFS(grant.manifestCid));
+      if (!isSealedManifest(manifest)) {
+        throw new ManifestError('shared files must use a sealed manifest');
+      }
+      const wallet = await sharingService.findOwnerWallet(grant.ownerUid);
+      if (await saveSealedFile(manifest, key, { checkId: grant.id, wallet })) {
+        showNotification('success', 'File downloaded successfully!');
+      }
+    } catch (error) {
+      showDownloadError(error);
+    } finally {
+      untrackDownload(grant.id);
     }
   };
 
@@ -880,6 +1749,128 @@ export default function AuthenticatedDashboard() {
         )}
       </AnimatePresence>
 
+      {/* Media Player Overlay */}
+      <AnimatePresence>
+        {mediaPlayer && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <div className="w-full max-w-3xl bg-black/60 border border-purple-500/30 rounded-2xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-white font-semibold truncate mr-4">{mediaPlayer.name}</span>
+                <button
+                  onClick={closeMediaPlayer}
+                  className="p-1 text-gray-400 hover:text-white transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              {mediaPlayer.mimeType.startsWith('audio/') ? (
+                <audio src={mediaPlayer.url} controls autoPlay className="w-full" />
+              ) : (
+                <video src={mediaPlayer.url} controls autoPlay className="w-full max-h-[70vh] rounded-lg" />
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <VaultUnlockDialog
+        request={vaultDialog?.request ?? null}
+        error={vaultDialog?.error ?? ''}
+        busy={vaultDialog?.busy ?? false}
+        onAnswer={answerVaultDialog}
+      />
+
+      {/* Recovery Phrase Overlay */}
+      <AnimatePresence>
+        {recoveryPhrase && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <div className="w-full max-w-2xl bg-black/60 border border-purple-500/30 rounded-2xl p-6">
+              <h3 className="text-xl font-semibold mb-2 text-white flex items-center">
+                <KeyRound className="w-5 h-5 mr-2 text-purple-400" />
+                Your recovery phrase
+              </h3>
+              {phraseStep === 'show' ? (
+                <>
+                  <p className="text-sm text-gray-300 mb-4">
+                    Write these words down in order and keep them offline. They can rebuild your vault without your
+                    password, wallet or account. This is the only time they will be shown.
+                  </p>
+                  <ol className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-6">
+                    {recoveryPhrase.words.map((word, i) => (
+                      <li key={i} className="bg-white/5 border border-purple-500/20 rounded-lg px-3 py-2 font-mono text-sm text-white">
+                        <span className="text-gray-500 mr-2">{i + 1}.</span>{word}
+                      </li>
+                    ))}
+                  </ol>
+                  <button
+                    onClick={() => setPhraseStep('verify')}
+                    className="w-full bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-3 rounded-xl font-semibold"
+                  >
+                    I have written it down
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-300 mb-4">Enter the following words from your phrase to confirm you saved it.</p>
+                  <div className="space-y-3 mb-4">
+                    {recoveryPhrase.checks.map((position, i) => (
+                      <label key={position} className="flex items-center gap-3">
+                        <span className="w-20 text-sm text-gray-400">Word {position + 1}</span>
+                        <input
+                          type="text"
+                          autoComplete="off"
+                          spellCheck={false}
+                          value={phraseAnswers[i] ?? ''}
+                          onChange={(e) => {
+                            const answers = [...phraseAnswers];
+                            answers[i] = e.target.value;
+                            setPhraseAnswers(answers);
+                            setPhraseError('');
+                          }}
+                          className="flex-1 px-3 py-2 bg-white/10 border border-purple-500/30 rounded-lg text-white font-mono focus:outline-none focus:border-purple-400"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  {phraseError && (
+                    <p className="text-red-400 text-sm mb-4 flex items-center">
+                      <AlertCircle className="w-4 h-4 mr-1" />
+                      {phraseError}
+                    </p>
+                  )}
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setPhraseStep('show')}
+                      className="flex-1 px-4 py-3 rounded-xl font-semibold text-white border border-purple-500/30 bg-white/5 hover:bg-white/10"
+                    >
+                      Back to phrase
+                    </button>
+                    <button
+                      onClick={verifyRecoveryPhrase}
+                      className="flex-1 bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-3 rounded-xl font-semibold"
+                    >
+                      Confirm
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 relative z-10">
         {/* Header */}
         <motion.div 
@@ -984,6 +1975,27 @@ export default function AuthenticatedDashboard() {
               </div>
             </div>
 
+            {/* Vault Lock */}
+            <motion.button
+              onClick={handleToggleVault}
+              title={vaultSession.unlocked ? 'Lock vault' : 'Unlock vault'}
+              className={`flex items-center justify-center space-x-2 bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 shadow-lg text-sm sm:text-base ${
+                vaultSession.unlocked ? 'border-green-500/30 hover:border-green-500/50' : 'border-purple-500/20 hover:border-purple-500/40'
+              }`}
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ duration: 0.8, delay: 0.65 }}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              {vaultSession.unlocked ? (
+                <LockOpen className="w-4 h-4 sm:w-5 sm:h-5 text-green-400" />
+              ) : (
+                <Lock className="w-4 h-4 sm:w-5 sm:h-5 text-purple-400" />
+              )}
+              <span className="text-white font-semibold">{vaultSession.unlocked ? 'Vault unlocked' : 'Vault locked'}</span>
+            </motion.button>
+
             {/* User Menu */}
             <motion.button
               onClick={handleSignOut}
@@ -1117,8 +2129,16 @@ export default function AuthenticatedDashboard() {
                       </button>
                     </div>
                     <p className="text-xs sm:text-sm text-gray-400">
-                      Leave empty for automatic key generation
+                      Applies to this upload only. Leave empty to protect the file with your vault
                     </p>
+                    <select
+                      value={chunking}
+                      onChange={(e) => setChunking(e.target.value as ChunkingStrategy)}
+                      className="mt-3 w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-purple-500/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 text-white backdrop-blur-sm text-sm sm:text-base"
+                    >
+                      <option value="fixed" className="bg-gray-900">Fixed 1 MB chunks</option>
+                      <option value="content-defined" className="bg-gray-900">Deduplicating chunks (best for edited files)</option>
+                    </select>
                   </div>
 
                   <motion.label 
@@ -1151,6 +2171,47 @@ export default function AuthenticatedDashboard() {
                       )}
                     </span>
                   </motion.label>
+
+                  {/* Upload Progress */}
+                  {uploading && (
+                    <div className="mt-4 sm:mt-6 max-w-md mx-auto">
+                      <div className="flex items-center justify-between mb-2 text-xs sm:text-sm text-gray-300">
+                        <span>
+                          {uploadProgress?.phase === 'deriving-key' && 'Deriving key...'}
+                          {uploadProgress?.phase === 'encrypting' && 'Encrypting and uploading...'}
+                          {uploadProgress?.phase === 'finalizing' && 'Finalizing...'}
+                          {!uploadProgress && 'Starting...'}
+                        </span>
+                        <span>
+                          {uploadProgress && uploadProgress.totalBytes > 0
+                            ? `${Math.round(uploadProgress.bytesProcessed / uploadProgress.totalBytes * 100)}%`
+                            : ''}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-purple-500 via-pink-500 to-cyan-400 transition-all duration-300"
+                          style={{
+                            width: uploadProgress && uploadProgress.totalBytes > 0
+                              ? `${uploadProgress.bytesProcessed / uploadProgress.totalBytes * 100}%`
+                              : '0%'
+                          }}
+                        />
+                      </div>
+                      {uploadTransfer && uploadTransfer.total > 0 && (
+                        <div className="mt-2 text-xs text-gray-400">
+                          {uploadTransfer.completed} of {uploadTransfer.total} chunks stored
+                          {uploadTransfer.retries > 0 && ` • ${uploadTransfer.retries} retried`}
+                        </div>
+                      )}
+                      <button
+                        onClick={() => uploadAbort.current?.abort()}
+                        className="mt-3 text-xs sm:text-sm text-red-400 hover:text-red-300 transition-colors"
+                      >
+                        Cancel upload
+                      </button>
+                    </div>
+                  )}
                 </div>
               </motion.div>
 
@@ -1160,7 +2221,19 @@ export default function AuthenticatedDashboard() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.6, delay: 0.4 }}
               >
-                <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 text-white">Your Files ({files.length})</h2>
+                <div className="flex items-center justify-between mb-4 sm:mb-6">
+                  <h2 className="text-xl sm:text-2xl font-bold text-white">Your Files ({files.length})</h2>
+                  <label className="px-3 py-2 rounded-lg font-semibold flex items-center text-xs sm:text-sm text-gray-300 border border-gray-500/30 bg-white/10 hover:bg-white/20 cursor-pointer transition-all duration-300">
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={handleVerifyReceipt}
+                    />
+                    <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                    Verify receipt
+                  </label>
+                </div>
                 <div className="space-y-3 sm:space-y-4">
                   {files.length === 0 ? (
                     <motion.div 
@@ -1212,6 +2285,7 @@ export default function AuthenticatedDashboard() {
                               <Lock className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
                               Encrypted
                             </div>
+                            {ownerChecks[file.id] && <OwnerVerificationBadge verification={ownerChecks[file.id]} />}
                             <div className="flex space-x-2 sm:space-x-3">
                               <motion.button
                                 onClick={() => handleDownload(file)}
@@ -1219,10 +2293,20 @@ export default function AuthenticatedDashboard() {
                                 whileHover={{ scale: 1.02 }}
                                 whileTap={{ scale: 0.98 }}
                               >
-                                <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                                Download
+                                {downloads[file.id] ? (
+                                  <>
+                                    <Loader2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 animate-spin" />
+                                    {transferPercent(downloads[file.id])}%
+                                  </>
+                                ) : (
+                                  <>
+                                    <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                    Download
+                                  </>
+                                )}
                               </motion.button>
                               <motion.button 
+                                onClick={() => handleShare(file)}
                                 className="flex-1 sm:flex-none inline-flex items-center justify-center px-3 sm:px-4 py-2 bg-white/10 text-gray-300 font-semibold rounded-lg hover:bg-white/20 transition-all duration-300 border border-gray-500/30 text-xs sm:text-sm"
                                 whileHover={{ scale: 1.02 }}
                                 whileTap={{ scale: 0.98 }}
@@ -1230,6 +2314,29 @@ export default function AuthenticatedDashboard() {
                                 <Share2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                                 Share
                               </motion.button>
+                              <motion.button 
+                                onClick={() => handlePlay(file)}
+                                className="flex-1 sm:flex-none inline-flex items-center justify-center px-3 sm:px-4 py-2 bg-white/10 text-gray-300 font-semibold rounded-lg hover:bg-white/20 transition-all duration-300 border border-gray-500/30 text-xs sm:text-sm"
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                              >
+                                <Play className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                Play
+                              </motion.button>
+                              <motion.button 
+                                onClick={() => handleDelete(file)}
+                                disabled={deletingFile !== null}
+                                className="flex-1 sm:flex-none inline-flex items-center justify-center px-3 sm:px-4 py-2 bg-red-500/10 text-red-300 font-semibold rounded-lg hover:bg-red-500/20 transition-all duration-300 border border-red-500/30 text-xs sm:text-sm disabled:opacity-50"
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                              >
+                                {deletingFile === file.id ? (
+                                  <Loader2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 animate-spin" />
+                                ) : (
+                                  <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                )}
+                                Delete
+                              </motion.button>
                             </div>
                           </div>
                         </div>
@@ -1238,6 +2345,61 @@ export default function AuthenticatedDashboard() {
                   )}
                 </div>
               </motion.div>
+
+              {/* Shared With Me */}
+              {sharedFiles.length > 0 && (
+                <motion.div
+                  className="mt-8 sm:mt-10"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.6, delay: 0.5 }}
+                >
+                  <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 text-white">Shared With Me ({sharedFiles.length})</h2>
+                  <div className="space-y-3 sm:space-y-4">
+                    {sharedFiles.map((grant) => (
+                      <div
+                        key={grant.id}
+                        className="bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl border border-cyan-500/20 rounded-xl p-4 sm:p-6 hover:border-cyan-400/40 transition-all duration-300 shadow-lg"
+                      >
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0">
+                          <div className="flex items-center min-w-0 flex-1">
+                            <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-r from-cyan-400 to-purple-500 rounded-xl flex items-center justify-center mr-3 sm:mr-4 flex-shrink-0">
+                              <Users className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+                            </div>
+                            <div className="min-w-0 flex-1">
+                              <h3 className="text-base sm:text-lg font-semibold text-white mb-1 truncate">{grant.fileName}</h3>
+                              <div className="text-xs sm:text-sm text-gray-300">
+                                {formatStorageSize(grant.fileSize)} • Shared by {grant.ownerName}
+                              </div>
+                            </div>
+                          </div>
+                          <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-3 sm:flex-shrink-0">
+                            {ownerChecks[grant.id] && <OwnerVerificationBadge verification={ownerChecks[grant.id]} />}
+                            <motion.button
+                              onClick={() => handleSharedDownload(grant)}
+                              className="inline-flex items-center justify-center px-3 sm:px-4 py-2 bg-gradient-to-r from-purple-500 to-cyan-400 text-white font-semibold rounded-lg hover:shadow-lg transition-all duration-300 border border-purple-400/30 text-xs sm:text-sm"
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                            >
+                              {downloads[grant.id] ? (
+                                <>
+                                  <Loader2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 animate-spin" />
+                                  {transferPercent(downloads[grant.id])}%
+                                </>
+                              ) : (
+                                <>
+                                  <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                  Download
+                                </>
+                              )}
+                            </motion.button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </motion.div>
+              )}
             </motion.div>
           )}
 
@@ -1720,6 +2882,128 @@ export default function AuthenticatedDashboard() {
                       </div>
                     </div>
                   </div>
+
+                  <div className="mt-8 bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl border border-purple-500/20 rounded-xl p-6">
+                    <h3 className="text-xl font-semibold mb-4 text-white flex items-center">
+                      <KeyRound className="w-5 h-5 mr-2 text-purple-400" />
+                      Key Backup
+                    </h3>
+
+                    {/* Keys of password-protected files only live in this browser */}
+                    {backupStatus?.due && (
+                      <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-start">
+                        <AlertCircle className="w-5 h-5 text-yellow-400 mr-3 flex-shrink-0" />
+                        <span className="text-yellow-200 text-sm">
+                          {backupStatus.lastBackupAt
+                            ? 'Your keys have changed or your last backup is over a month old.'
+                            : 'Your file keys have never been backed up.'}
+                          {' '}Clearing browser data without a backup makes password-protected files unrecoverable.
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <div className="text-sm text-gray-400">Keys on this device</div>
+                          <div className="font-medium text-white">{backupStatus?.entryCount ?? '-'}</div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-400">Last backup</div>
+                          <div className="font-medium text-white">
+                            {backupStatus?.lastBackupAt ? new Date(backupStatus.lastBackupAt).toLocaleDateString() : 'Never'}
+                          </div>
+                        </div>
+                      </div>
+
+                      {pendingPasswordChange && !passwordChange && (
+                        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-start">
+                          <AlertCircle className="w-5 h-5 text-yellow-400 mr-3 flex-shrink-0" />
+                          <span className="text-yellow-200 text-sm flex-1">
+                            A password change started {new Date(pendingPasswordChange.startedAt).toLocaleString()} did not
+                            finish ({pendingPasswordChange.staged} keys staged). Resume it to move the remaining keys and files to the new password.
+                          </span>
+                          <button
+                            onClick={handleDiscardPasswordChange}
+                            className="ml-3 text-sm text-yellow-300 hover:text-white transition-colors"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      )}
+
+                      <div className="flex flex-wrap gap-3 border-t border-purple-500/20 pt-4">
+                        <motion.button
+                          onClick={handleExportKeys}
+                          disabled={backingUp}
+                          className="bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-2 rounded-xl font-semibold flex items-center disabled:opacity-50 text-sm"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          {backingUp ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <Download className="w-4 h-4 mr-2" />
+                          )}
+                          Export backup
+                        </motion.button>
+                        <label className={`px-4 py-2 rounded-xl font-semibold flex items-center text-sm text-white border border-purple-500/30 bg-white/5 ${
+                          backingUp ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'
+                        }`}>
+                          <input
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={handleImportKeys}
+                            disabled={backingUp}
+                          />
+                          <Upload className="w-4 h-4 mr-2" />
+                          Restore backup
+                        </label>
+                        <motion.button
+                          onClick={handleChangeKeyPassword}
+                          disabled={backingUp || passwordChange !== null}
+                          className="px-4 py-2 rounded-xl font-semibold flex items-center text-sm text-white border border-purple-500/30 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          {passwordChange ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <Lock className="w-4 h-4 mr-2" />
+                          )}
+                          {passwordChange
+                            ? `${passwordChange.stage === 'keys' ? 'Changing password' : 'Re-sealing files'} ${passwordChange.done}/${passwordChange.total}`
+                            : pendingPasswordChange ? 'Resume password change' : 'Change password'}
+                        </motion.button>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="mt-8 bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl border border-purple-500/20 rounded-xl p-6">
+                    <h3 className="text-xl font-semibold mb-4 text-white flex items-center">
+                      <Shield className="w-5 h-5 mr-2 text-purple-400" />
+                      Vault Recovery
+                    </h3>
+                    <p className="text-sm text-gray-300 mb-4">
+                      Lost your vault password? Your {RECOVERY_PHRASE_WORDS}-word recovery phrase rebuilds the vault
+                      under a new password and unlocks every file it protects.
+                    </p>
+                    <motion.button
+                      onClick={handleRecoverVault}
+                      disabled={recoveringVault}
+                      className="bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-2 rounded-xl font-semibold flex items-center disabled:opacity-50 text-sm"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      {recoveringVault ? (
+                        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      ) : (
+                        <KeyRound className="w-4 h-4 mr-2" />
+                      )}
+                      Recover vault
+                    </motion.button>
+                  </div>
                 </div>
                 
                 <div>
@@ -1768,6 +3052,147 @@ export default function AuthenticatedDashboard() {
                       )}
                     </div>
                   </div>
+
+                  <div className="mt-8 bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl border border-purple-500/20 rounded-xl p-6">
+                    <h3 className="text-xl font-semibold mb-4 text-white flex items-center">
+                      <Lock className="w-5 h-5 mr-2 text-purple-400" />
+                      Vault Session
+                    </h3>
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="vault-idle-lock" className="text-sm text-gray-300">Lock after inactivity</label>
+                        <select
+                          id="vault-idle-lock"
+                          value={vaultSession.settings.idleMinutes}
+                          onChange={(e) => vaultSession.updateSettings({ idleMinutes: Number(e.target.value) })}
+                          className="px-3 py-2 bg-white/10 border border-purple-500/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 text-white text-sm"
+                        >
+                          {IDLE_LOCK_OPTIONS.map(minutes => (
+                            <option key={minutes} value={minutes} className="bg-gray-900">
+                              {minutes === 0 ? 'Never' : `${minutes} minutes`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                        Lock when this tab is hidden
+                        <input
+                          type="checkbox"
+                          checked={vaultSession.settings.lockWhenHidden}
+                          onChange={(e) => vaultSession.updateSettings({ lockWhenHidden: e.target.checked })}
+                          className="w-4 h-4 accent-purple-500"
+                        />
+                      </label>
+
+                      {isPasskeySupported() && (
+                        <div className="border-t border-purple-500/20 pt-4 flex items-center justify-between gap-4">
+                          <div className="text-sm text-gray-300">
+                            {userProfile.vault && findPasskeySlots(userProfile.vault).length > 0
+                              ? `${findPasskeySlots(userProfile.vault).length} passkey(s) can unlock your vault`
+                              : 'Unlock with Face ID, Touch ID or a security key'}
+                          </div>
+                          <motion.button
+                            onClick={handleAddPasskey}
+                            disabled={addingPasskey}
+                            className="px-4 py-2 rounded-xl font-semibold flex items-center text-sm text-white border border-purple-500/30 bg-white/5 hover:bg-white/10 disabled:opacity-50 flex-shrink-0"
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            {addingPasskey ? (
+                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                            ) : (
+                              <Fingerprint className="w-4 h-4 mr-2" />
+                            )}
+                            Add passkey
+                          </motion.button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="mt-8 bg-gradient-to-r from-white/10 to-white/5 backdrop-blur-xl border border-purple-500/20 rounded-xl p-6">
+                    <h3 className="text-xl font-semibold mb-4 text-white flex items-center">
+                      <Users className="w-5 h-5 mr-2 text-purple-400" />
+                      Social Recovery
+                    </h3>
+                    <div className="space-y-4">
+                      {userProfile.vault?.recovery ? (
+                        <div>
+                          <div className="text-sm text-gray-400 mb-1">
+                            Any {userProfile.vault.recovery.threshold} of {userProfile.vault.recovery.guardians.length} shares rebuild your vault
+                          </div>
+                          <ul className="space-y-1">
+                            {userProfile.vault.recovery.guardians.map(guardian => (
+                              <li key={guardian.index} className="text-sm text-white flex items-center">
+                                <Shield className="w-4 h-4 mr-2 text-cyan-400" />
+                                {guardian.type === 'account' ? guardian.displayName : `Printed share ${guardian.index}`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-300">
+                          Split your vault key between people you trust. No single guardian can open your files, but
+                          enough of them together can restore your vault.
+                        </p>
+                      )}
+
+                      <div className="flex flex-wrap gap-3">
+                        <motion.button
+                          onClick={handleSetupGuardians}
+                          disabled={settingUpGuardians}
+                          className="bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-2 rounded-xl font-semibold flex items-center disabled:opacity-50 text-sm"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          {settingUpGuardians ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <Users className="w-4 h-4 mr-2" />
+                          )}
+                          {userProfile.vault?.recovery ? 'Replace guardians' : 'Set up guardians'}
+                        </motion.button>
+                        <motion.button
+                          onClick={handleRecoverWithShares}
+                          disabled={recoveringVault}
+                          className="px-4 py-2 rounded-xl font-semibold flex items-center text-sm text-white border border-purple-500/30 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <KeyRound className="w-4 h-4 mr-2" />
+                          Recover with shares
+                        </motion.button>
+                      </div>
+
+                      {heldShares.length > 0 && (
+                        <div className="border-t border-purple-500/20 pt-4">
+                          <div className="text-sm text-gray-400 mb-2">Shares you hold for others</div>
+                          <div className="space-y-3">
+                            {heldShares.map(share => (
+                              <div key={share.id}>
+                                <div className="flex items-center justify-between">
+                                  <span className="text-sm text-white">
+                                    {share.ownerName} <span className="text-gray-400">(share {share.index}, {share.threshold} needed)</span>
+                                  </span>
+                                  <button
+                                    onClick={() => handleReleaseShare(share)}
+                                    className="text-sm text-purple-300 hover:text-white transition-colors"
+                                  >
+                                    Release
+                                  </button>
+                                </div>
+                                {releasedShare?.id === share.id && (
+                                  <code className="block mt-2 p-2 bg-black/40 rounded-lg text-xs text-cyan-200 break-all select-all">
+                                    {releasedShare.text}
+                                  </code>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -0,0 +1,37 @@
+'use client';
+
+import { ShieldCheck, ShieldAlert, ShieldQuestion } from 'lucide-react';
+import type { ManifestVerification } from '@/services/manifestSignature';
+
+interface OwnerVerificationBadgeProps {
+  verification: ManifestVerification;
+}
+
+// Result of checking a manifest's owner signature, shown once the file was opened
+export default function OwnerVerificationBadge({ verification }: OwnerVerificationBadgeProps) {
+  const base = 'flex items-center justify-center text-xs sm:text-sm px-2 sm:px-3 py-1 rounded-full border';
+
+  if (verification.status === 'verified') {
+    const { owner } = verification;
+    return (
+      <div className={`${base} text-green-400 bg-green-500/10 border-green-500/30`} title={owner}>
+        <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+        Verified owner {owner.substring(0, 6)}...{owner.substring(owner.length - 4)}
+      </div>
+    );
+  }
+  if (verification.status === 'unsigned') {
+    return (
+      <div className={`${base} text-gray-400 bg-white/5 border-gray-500/30`} title="Uploaded without a wallet signature">
+        <ShieldQuestion className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+        Unsigned
+      </div>
+    );
+  }
+  return (
+    <div className={`${base} text-red-300 bg-red-500/20 border-red-500/60 font-semibold`} title={verification.reason}>
+      <ShieldAlert className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+      {verification.status === 'missing' ? 'Owner signature missing' : 'Owner not verified'}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, Eye, EyeOff, Wallet, Fingerprint, Loader2, AlertCircle, X } from 'lucide-react';
+
+// What the dialog is asking for
+export type VaultDialogRequest =
+  | { mode: 'unlock'; password: boolean; wallet: boolean; passkey: boolean } // Which unlock methods the vault has
+  | { mode: 'create'; wallet: boolean } // Whether a wallet is connected to derive the vault from
+  | { mode: 'file-password'; fileName: string };
+
+// How the user chose to answer it
+export type VaultDialogAnswer =
+  | { method: 'password'; password: string }
+  | { method: 'wallet' }
+  | { method: 'passkey' };
+
+interface VaultUnlockDialogProps {
+  request: VaultDialogRequest | null;
+  error: string;
+  busy: boolean; // An answer is being tried; the dialog stays open in case it fails
+  onAnswer: (answer: VaultDialogAnswer | null) => void;
+}
+
+export default function VaultUnlockDialog({ request, error, busy, onAnswer }: VaultUnlockDialogProps) {
+  return (
+    <AnimatePresence>
+      {request && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          {/* Keyed by question so fields start empty for every new one */}
+          <DialogBody key={request.mode === 'file-password' ? request.fileName : request.mode} request={request} error={error} busy={busy} onAnswer={onAnswer} />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function DialogBody({ request, error, busy, onAnswer }: VaultUnlockDialogProps & { request: VaultDialogRequest }) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [mismatch, setMismatch] = useState(false);
+
+  const creating = request.mode === 'create';
+  const title = request.mode === 'unlock'
+    ? 'Unlock your vault'
+    : creating
+      ? 'Create your vault'
+      : `Password for ${request.fileName}`;
+  const description = request.mode === 'unlock'
+    ? 'Your vault stays unlocked until you lock it, leave it idle or switch tabs.'
+    : creating
+      ? 'Your vault protects the keys of every file you upload without its own password.'
+      : 'This file has its own password. It is remembered until your vault locks.';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || busy) return;
+    if (creating && password !== confirmPassword) {
+      setMismatch(true);
+      return;
+    }
+    onAnswer({ method: 'password', password });
+  };
+
+  return (
+    <div className="w-full max-w-md bg-black/60 border border-purple-500/30 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <Lock className="w-5 h-5 mr-2 text-purple-400" />
+          {title}
+        </h3>
+        <button
+          onClick={() => onAnswer(null)}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-300 mb-4">{description}</p>
+      {error && (
+        <p className="text-red-400 text-sm mb-4 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {(request.mode !== 'unlock' || request.password) && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex items-center">
+            <input
+              type={showPassword ? 'text' : 'password'}
+              placeholder={creating ? 'Choose a vault password' : 'Password'}
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                setMismatch(false);
+              }}
+              autoFocus
+              disabled={busy}
+              className="flex-1 px-4 py-3 bg-white/10 border border-purple-500/30 rounded-l-xl focus:outline-none focus:ring-2 focus:ring-purple-500 text-white placeholder-gray-400 disabled:opacity-50"
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="px-4 py-3 border border-l-0 border-purple-500/30 rounded-r-xl hover:bg-white/10 text-purple-400 transition-colors"
+            >
+              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+          </div>
+          {creating && (
+            <input
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Enter it again"
+              value={confirmPassword}
+              onChange={(e) => {
+                setConfirmPassword(e.target.value);
+                setMismatch(false);
+              }}
+              disabled={busy}
+              className="w-full px-4 py-3 bg-white/10 border border-purple-500/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 text-white placeholder-gray-400 disabled:opacity-50"
+            />
+          )}
+
+          {mismatch && (
+            <p className="text-red-400 text-sm flex items-center">
+              <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+              Passwords do not match
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={!password || busy}
+            className="w-full bg-gradient-to-r from-purple-500 to-cyan-400 text-white px-4 py-3 rounded-xl font-semibold flex items-center justify-center disabled:opacity-50"
+          >
+            {busy && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            {creating ? 'Create vault' : 'Unlock'}
+          </button>
+        </form>
+      )}
+
+      {request.mode !== 'file-password' && (request.wallet || (request.mode === 'unlock' && request.passkey)) && (
+        <div className={`space-y-3 ${request.mode === 'unlock' && !request.password ? '' : 'mt-4 pt-4 border-t border-purple-500/20'}`}>
+          {request.wallet && (
+            <button
+              onClick={() => onAnswer({ method: 'wallet' })}
+              disabled={busy}
+              className="w-full px-4 py-3 rounded-xl font-semibold flex items-center justify-center text-white border border-purple-500/30 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+            >
+              <Wallet className="w-4 h-4 mr-2" />
+              {creating ? 'Derive from connected wallet' : 'Unlock with wallet'}
+            </button>
+          )}
+          {request.mode === 'unlock' && request.passkey && (
+            <button
+              onClick={() => onAnswer({ method: 'passkey' })}
+              disabled={busy}
+              className="w-full px-4 py-3 rounded-xl font-semibold flex items-center justify-center text-white border border-purple-500/30 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+            >
+              <Fingerprint className="w-4 h-4 mr-2" />
+              Unlock with passkey
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useAccount, useWriteContract, useReadContract, useBalance } from 'wagmi';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount, useWriteContract, useReadContract, useBalance, useSignMessage, useSignTypedData } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { 
   Upload, 
@@ -21,6 +21,17 @@ import {
 } from 'lucide-react';
 import { uploadToIPFS, downloadFromIPFS } from '@/services/ipfs';
 import { EncryptionService, KeyManager } from '@/services/encryption';
+import { vaultService, findWalletSlot, findPasskeySlots, loadLocalVaultRecord, saveLocalVaultRecord } from '@/services/vault';
+import { evaluatePasskey } from '@/services/passkey';
+import { useVaultSession } from '@/hooks/useVaultSession';
+import { parseManifest, isSealedManifest, sealFileManifest, openManifest, deriveManifestKey, ManifestError, SealedManifest } from '@/services/manifest';
+import { toUploadFile, uploadErasureCodedStream, downloadChunks, downloadFileChunks, saveStreamAsFile } from '@/services/fileTransfer';
+import { TransferScheduler, TransferProgress } from '@/services/transferScheduler';
+import { DEFAULT_ERASURE } from '@/services/erasure';
+import { payloadSize } from '@/services/compression';
+import { manifestTypedData, verifyManifestSignature, ManifestVerification } from '@/services/manifestSignature';
+import OwnerVerificationBadge from './OwnerVerificationBadge';
+import VaultUnlockDialog, { VaultDialogRequest, VaultDialogAnswer } from './VaultUnlockDialog';
 
 // Contract addresses - these would be set after deployment
 const STORAGE_MARKET_ADDRESS = process.env.NEXT_PUBLIC_STORAGE_MARKET_CONTRACT as `0x${string}`;
@@ -33,7 +44,9 @@ const STORAGE_MARKET_ABI = [
       {"internalType": "string", "name": "_fileHash", "type": "string"},
       {"internalType": "uint256", "name": "_fileSize", "type": "uint256"},
       {"internalType": "uint256", "name": "_duration", "type": "uint256"},
-      {"internalType": "uint256", "name": "_redundancy", "type": "uint256"}
+      {"internalType": "uint256", "name": "_redundancy", "type": "uint256"},
+      {"internalType": "bytes32", "name": "_merkleRoot", "type": "bytes32"},
+      {"internalType": "uint256", "name": "_chunkCount", "type": "uint256"}
     ],
     "name": "requestStorage",
     "outputs": [],
@@ -115,10 +128,15 @@ export default function Web3Dashboard() {
   const [files, setFiles] = useState<FileRecord[]>([]);
   const [providers, setProviders] = useState<Provider[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [uploadTransfer, setUploadTransfer] = useState<TransferProgress | null>(null);
   const [activeTab, setActiveTab] = useState<'files' | 'provider' | 'marketplace'>('files');
   const [showPassword, setShowPassword] = useState(false);
   const [encryptionPassword, setEncryptionPassword] = useState('');
   const [isProvider, setIsProvider] = useState(false);
+  const [vaultDialog, setVaultDialog] = useState<{ request: VaultDialogRequest; error: string; busy: boolean } | null>(null);
+  const vaultDialogAnswer = useRef<((answer: VaultDialogAnswer | null) => void) | null>(null);
+  // Owner signature checks of opened manifests, by file id
+  const [ownerChecks, setOwnerChecks] = useState<Record<string, ManifestVerification>>({});
   const [providerStats, setProviderStats] = useState({
     earnings: '0',
     storage: '0',
@@ -126,6 +144,10 @@ export default function Web3Dashboard() {
   });
 
   const { writeContract } = useWriteContract();
+  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
+  // Idle and hidden-tab locks wait for an upload that still needs the vault
+  const vaultSession = useVaultSession(uploading);
 
   // Get user's token balance
   const { data: tokenBalance } = useBalance({
@@ -154,52 +176,151 @@ export default function Web3Dashboard() {
     },
   });
 
+  // Show the unlock dialog, or update it with the error from the last
+  // attempt, and wait for the user's next answer. Null means cancelled.
+  const askVaultDialog = useCallback((request: VaultDialogRequest, error = '') =>
+    new Promise<VaultDialogAnswer | null>(resolve => {
+      vaultDialogAnswer.current = resolve;
+      setVaultDialog({ request, error, busy: false });
+    }), []);
+
+  const answerVaultDialog = (answer: VaultDialogAnswer | null) => {
+    const resolve = vaultDialogAnswer.current;
+    vaultDialogAnswer.current = null;
+    // Stay open while the answer is tried, so a wrong password can be retyped
+    setVaultDialog(current => (answer && current ? { ...current, busy: true } : null));
+    resolve?.(answer);
+  };
+
+  const closeVaultDialog = useCallback(() => setVaultDialog(null), []);
+
+  // Unlock the wallet's vault for the session, deriving it from a wallet
+  // signature on first use
+  const ensureVaultUnlocked = useCallback(async (): Promise<boolean> => {
+    if (vaultService.isUnlocked()) return true;
+    if (!address) return false;
+
+    try {
+      let record = loadLocalVaultRecord(address);
+      if (!record) {
+        // Deterministic, so a new device recreates the same vault from the wallet alone
+        const signature = await signMessageAsync({ message: EncryptionService.walletKeyMessage(address) });
+        saveLocalVaultRecord(address, await vaultService.createVaultFromWallet(address, signature));
+        return true;
+      }
+
+      const request: VaultDialogRequest = {
+        mode: 'unlock',
+        password: record.slots.some(s => s.type === 'password'),
+        wallet: !!findWalletSlot(record, address),
+        passkey: findPasskeySlots(record).length > 0,
+      };
+      let error = '';
+      for (;;) {
+        const answer = await askVaultDialog(request, error);
+        if (!answer) return false;
+
+        try {
+          if (answer.method === 'wallet') {
+            const signature = await signMessageAsync({ message: EncryptionService.walletKeyMessage(address) });
+            await vaultService.unlockWithWallet(record, address, signature);
+          } else if (answer.method === 'passkey') {
+            const { credentialId, prfOutput } = await evaluatePasskey(findPasskeySlots(record));
+            await vaultService.unlockWithPasskey(record, credentialId, prfOutput);
+          } else {
+            // Vaults created before wallet keys were password protected;
+            // the record may come back re-wrapped with current KDF parameters
+            record = await vaultService.unlockWithPassword(record, answer.password);
+            saveLocalVaultRecord(address, record);
+          }
+          return true;
+        } catch (attemptError) {
+          console.error('Vault unlock attempt failed:', attemptError);
+          error = attemptError instanceof Error ? attemptError.message : 'Failed to unlock vault';
+        }
+      }
+    } catch (error) {
+      console.error('Vault unlock failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to unlock vault');
+      return false;
+    } finally {
+      closeVaultDialog();
+    }
+  }, [address, signMessageAsync, askVaultDialog, closeVaultDialog]);
+
+  const handleToggleVault = async () => {
+    if (vaultSession.unlocked) {
+      vaultSession.lock();
+    } else {
+      await ensureVaultUnlocked();
+    }
+  };
+
+  // Ask for a file's own password until it opens the file, remembering the
+  // key until the vault locks. Null means cancelled.
+  const askFilePassword = async (
+    fileName: string,
+    manifestHash: string,
+    openKey: (password: string) => Promise<CryptoKey | null>
+  ): Promise<CryptoKey | null> => {
+    const remembered = vaultService.getRememberedFileKey(manifestHash);
+    if (remembered) return remembered;
+
+    try {
+      let error = '';
+      for (;;) {
+        const answer = await askVaultDialog({ mode: 'file-password', fileName }, error);
+        if (answer?.method !== 'password') return null;
+
+        const key = await openKey(answer.password);
+        if (key) {
+          vaultService.rememberFileKey(manifestHash, key);
+          return key;
+        }
+        error = 'Incorrect password for this file';
+      }
+    } finally {
+      closeVaultDialog();
+    }
+  };
+
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !isConnected || !address) return;
 
+    // Files without their own password get a key wrapped by the vault
+    if (!encryptionPassword && !(await ensureVaultUnlocked())) {
+      event.target.value = '';
+      return;
+    }
+
     setUploading(true);
     try {
-      // Prepare file for storage (encrypt and chunk)
-      const prepared = await EncryptionService.prepareFileForStorage(
+      // Encrypt the file chunk by chunk, uploading each chunk as it is produced
+      const prepared = await EncryptionService.prepareFileStreamForStorage(
         file,
         encryptionPassword || undefined
       );
-
-      // Upload chunks to IPFS
-      const chunkHashes: string[] = [];
-      for (let i = 0; i < prepared.chunks.length; i++) {
-        const chunk = prepared.chunks[i];
-        const chunkArray = new Uint8Array(chunk);
-        const chunkBlob = new Blob([chunkArray]);
-        // Create file using object constructor to avoid TS issues
-        const chunkFile = Object.assign(chunkBlob, {
-          name: `chunk_${i}`,
-          lastModified: Date.now(),
-        }) as File;
-        const chunkHash = await uploadToIPFS(chunkFile);
-        chunkHashes.push(chunkHash);
-      }
-
-      // Create main metadata file
-      const metadataWithChunks = {
-        ...prepared.metadata,
-        chunkHashes,
-        encryptionKey: encryptionPassword ? undefined : EncryptionService.arrayBufferToBase64(await EncryptionService.exportKey(prepared.key))
-      };
-
-      const metadataString = JSON.stringify(metadataWithChunks);
-      const metadataBlob = new Blob([metadataString]);
-      // Create file using object constructor to avoid TS issues
-      const metadataFile = Object.assign(metadataBlob, {
-        name: `${file.name}.metadata`,
-        lastModified: Date.now(),
-      }) as File;
-      const metadataHash = await uploadToIPFS(metadataFile);
+      const { chunkHashes, erasure } = await uploadErasureCodedStream(prepared.chunks, DEFAULT_ERASURE, {
+        scheduler: new TransferScheduler({ onProgress: setUploadTransfer })
+      });
+      const metadata = await prepared.finalize();
+
+      // Seal the manifest so only the key holder can see what was stored,
+      // signed by the connected wallet as its owner
+      const manifest = await sealFileManifest(metadata, chunkHashes, prepared.key, {
+        wrappedKey: encryptionPassword ? undefined : await vaultService.wrapFileKey(prepared.key),
+        erasure,
+        sign: async body => ({
+          owner: address,
+          signature: await signTypedDataAsync(manifestTypedData(body, address))
+        })
+      });
+      const metadataHash = await uploadToIPFS(toUploadFile(JSON.stringify(manifest), 'manifest'));
 
       // Store encryption key if password was used
       if (encryptionPassword) {
-        await KeyManager.storeKey(metadataHash, prepared.key, encryptionPassword);
+        await KeyManager.storeKey(metadataHash, prepared.key, encryptionPassword, file.name);
       }
 
       // Request storage on blockchain
@@ -210,7 +331,14 @@ export default function Web3Dashboard() {
         address: STORAGE_MARKET_ADDRESS,
         abi: STORAGE_MARKET_ABI,
         functionName: 'requestStorage',
-        args: [metadataHash, BigInt(file.size), BigInt(duration), BigInt(redundancy)],
+        args: [
+          metadataHash,
+          BigInt(payloadSize(metadata)), // Compressed uploads are priced by their stored size
+          BigInt(duration),
+          BigInt(redundancy),
+          metadata.merkleRoot as `0x${string}`,
+          BigInt(metadata.chunkCount)
+        ],
       });
 
       // Add to local state
@@ -221,7 +349,7 @@ export default function Web3Dashboard() {
         uploadDate: new Date().toLocaleDateString(),
         ipfsHash: metadataHash,
         isEncrypted: true,
-        chunks: prepared.chunks.length,
+        chunks: metadata.chunkCount,
         providers: [], // Will be populated by contract
         cost: '0.1', // Mock cost
         status: 'stored'
@@ -235,73 +363,115 @@ export default function Web3Dashboard() {
       alert('Upload failed. Please try again.');
     } finally {
       setUploading(false);
+      setUploadTransfer(null);
       event.target.value = '';
     }
-  }, [isConnected, address, encryptionPassword, writeContract]);
+  }, [isConnected, address, encryptionPassword, writeContract, ensureVaultUnlocked, signTypedDataAsync]);
+
+  // Recover the file key named by a sealed manifest's header
+  const resolveManifestKey = async (manifest: SealedManifest, file: FileRecord): Promise<CryptoKey | null> => {
+    const { header } = manifest;
+    if (header.wrappedKey) {
+      if (!(await ensureVaultUnlocked())) return null;
+      return vaultService.unwrapFileKey(header.wrappedKey);
+    }
+    if (header.recordWrappedKey) {
+      throw new Error('This file\'s key is kept with your account. Open it from the account dashboard.');
+    }
+
+    return askFilePassword(file.name, file.ipfsHash, async password => {
+      // Prefer the locally kept key, falling back to the KDF parameters in the header
+      const key = (await KeyManager.retrieveKey(file.ipfsHash, password)) ?? (await deriveManifestKey(header, password));
+      try {
+        await openManifest(manifest, key);
+        return key;
+      } catch {
+        return null;
+      }
+    });
+  };
 
   const handleDownload = async (file: FileRecord) => {
     try {
-      // Download metadata
-      const metadataData = await downloadFromIPFS(file.ipfsHash);
-      const metadata = JSON.parse(new TextDecoder().decode(metadataData));
-
-      // Download all chunks
-      const chunks: ArrayBuffer[] = [];
-      for (const chunkHash of metadata.chunkHashes) {
-        const chunkData = await downloadFromIPFS(chunkHash);
-        // Convert to ArrayBuffer safely
-        let arrayBuffer: ArrayBuffer;
-        if (chunkData instanceof ArrayBuffer) {
-          arrayBuffer = chunkData;
-        } else if (chunkData instanceof Uint8Array) {
-          arrayBuffer = chunkData.buffer.slice(chunkData.byteOffset, chunkData.byteOffset + chunkData.byteLength) as ArrayBuffer;
-        } else {
-          // Convert any other type to ArrayBuffer
-          const uint8Array = new Uint8Array(chunkData as ArrayBufferLike);
-          arrayBuffer = uint8Array.buffer.slice(uint8Array.byteOffset, uint8Array.byteOffset + uint8Array.byteLength) as ArrayBuffer;
+      // Download and validate metadata
+      const metadata = parseManifest(await downloadFromIPFS(file.ipfsHash));
+
+      if (isSealedManifest(metadata)) {
+        // Recover the file key from the public header and open the body before fetching any chunks
+        const key = await resolveManifestKey(metadata, file);
+        if (!key) return;
+        const body = await openManifest(metadata, key);
+
+        // Files listed here are the connected wallet's own, so it must be the signer
+        const verification = await verifyManifestSignature(body, address);
+        setOwnerChecks(prev => ({ ...prev, [file.id]: verification }));
+        if ((verification.status === 'invalid' || verification.status === 'missing') && !confirm(
+          `WARNING: this file could not be verified as coming from its owner.\n\n${verification.reason}.\n\n` +
+          'It may have been replaced or tampered with. Download it anyway?'
+        )) {
+          return;
         }
-        chunks.push(arrayBuffer);
+
+        const plaintext = EncryptionService.reconstructFileStream(
+          downloadFileChunks(body),
+          body,
+          key
+        );
+        await saveStreamAsFile(plaintext, body.fileName, body.mimeType);
+        return;
       }
 
       // Get decryption key
       let key: CryptoKey;
-      if (metadata.encryptionKey) {
-        // Key was stored in metadata (no password)
+      if (metadata.wrappedKey) {
+        // Key was wrapped by the vault (no password)
+        if (!(await ensureVaultUnlocked())) return;
+        key = await vaultService.unwrapFileKey(metadata.wrappedKey);
+      } else if (metadata.encryptionKey) {
+        // Uploads from before the vault published their raw key
         const keyBuffer = EncryptionService.base64ToArrayBuffer(metadata.encryptionKey);
         key = await EncryptionService.importKey(keyBuffer);
       } else {
         // Key was encrypted with password
-        const password = prompt('Enter decryption password:');
-        if (!password) return;
-        
-        const retrievedKey = await KeyManager.retrieveKey(file.ipfsHash, password);
-        if (!retrievedKey) {
-          alert('Invalid password or key not found');
-          return;
-        }
+        const retrievedKey = await askFilePassword(
+          file.name,
+          file.ipfsHash,
+          password => KeyManager.retrieveKey(file.ipfsHash, password)
+        );
+        if (!retrievedKey) return;
         key = retrievedKey;
       }
 
-      // Reconstruct and decrypt file
-      const reconstructedFile = await EncryptionService.reconstructFileFromChunks(
-        chunks,
-        metadata,
-        key
-      );
+      if (metadata.encryption === 'aes-gcm-stream') {
+        // Fetch and decrypt chunk by chunk without holding the whole file
+        const plaintext = EncryptionService.reconstructFileStream(
+          downloadChunks(metadata.chunkHashes),
+          metadata,
+          key
+        );
+        await saveStreamAsFile(plaintext, metadata.fileName, metadata.mimeType);
+      } else {
+        // Legacy single-blob files need every chunk before decrypting
+        const chunks: ArrayBuffer[] = [];
+        for await (const chunk of downloadChunks(metadata.chunkHashes)) {
+          chunks.push(chunk);
+        }
 
-      // Download file
-      const url = URL.createObjectURL(reconstructedFile);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = reconstructedFile.name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+        const reconstructedFile = await EncryptionService.reconstructFileFromChunks(
+          chunks,
+          metadata,
+          key
+        );
+        await saveStreamAsFile(reconstructedFile.stream(), reconstructedFile.name, reconstructedFile.type);
+      }
 
     } catch (error) {
       console.error('Download failed:', error);
-      alert('Download failed. File may be corrupted or key is invalid.');
+      if (error instanceof ManifestError) {
+        alert(`Invalid file manifest (${error.message})`);
+      } else {
+        alert('Download failed. File may be corrupted or key is invalid.');
+      }
     }
   };
 
@@ -410,6 +580,18 @@ export default function Web3Dashboard() {
               <div className="text-sm text-gray-600">Balance</div>
               <div className="font-semibold">{formatTokens(tokenBalance?.formatted || '0')}</div>
             </div>
+            <button
+              onClick={handleToggleVault}
+              title={vaultSession.unlocked ? 'Lock vault' : 'Unlock vault'}
+              className="flex items-center bg-white px-4 py-2 rounded-lg shadow hover:bg-gray-50"
+            >
+              {vaultSession.unlocked ? (
+                <Unlock className="w-4 h-4 text-green-600 mr-2" />
+              ) : (
+                <Lock className="w-4 h-4 text-gray-600 mr-2" />
+              )}
+              <span className="font-semibold">{vaultSession.unlocked ? 'Vault unlocked' : 'Vault locked'}</span>
+            </button>
             <ConnectButton />
           </div>
         </div>
@@ -500,7 +682,9 @@ export default function Web3Dashboard() {
                         ? 'bg-gray-400 cursor-not-allowed' 
                         : 'bg-indigo-600 hover:bg-indigo-700'
                     }`}>
-                      {uploading ? 'Uploading...' : 'Choose File'}
+                      {uploading
+                        ? uploadTransfer?.completed ? `Uploading... (${uploadTransfer.completed} chunks)` : 'Uploading...'
+                        : 'Choose File'}
                     </span>
                   </label>
                 </div>
@@ -545,6 +729,7 @@ export default function Web3Dashboard() {
                               <Server className="w-3 h-3 mr-1" />
                               {file.providers.length || 3} providers
                             </div>
+                            {ownerChecks[file.id] && <OwnerVerificationBadge verification={ownerChecks[file.id]} />}
                             <button
                               onClick={() => handleDownload(file)}
                               className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-indigo-600 bg-indigo-100 hover:bg-indigo-200 transition-colors"
@@ -688,6 +873,13 @@ export default function Web3Dashboard() {
           )}
         </div>
       </div>
+
+      <VaultUnlockDialog
+        request={vaultDialog?.request ?? null}
+        error={vaultDialog?.error ?? ''}
+        busy={vaultDialog?.busy ?? false}
+        onAnswer={answerVaultDialog}
+      />
     </div>
   );
 }
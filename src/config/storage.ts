@@ -0,0 +1,50 @@
+// Where file chunks and manifests are stored, chosen per deployment through
+// the environment. The embedded Helia node needs no setup and is the default.
+
+export type StorageBackendKind = 'helia' | 'kubo' | 'w3up' | 'memory';
+
+export interface StorageConfig {
+  backend: StorageBackendKind;
+  kuboApiUrl: string; // Kubo RPC API, e.g. http://127.0.0.1:5001/api/v0
+  w3upSpace?: string; // did:key of the space uploads go to
+  w3upDelegationUrl?: string; // Returns a delegation of that space to the browser's agent
+  gatewayUrl: string; // Trustless reads for backends without their own
+  heliaMaxBytes: number; // Size the embedded node's blockstore is held to
+  heliaRepoPath: string; // Directory the embedded node stores into when run in Node
+}
+
+const BACKENDS: StorageBackendKind[] = ['helia', 'kubo', 'w3up', 'memory'];
+
+// Settings are read when this module loads, so a bad value falls back to the
+// default with a warning instead of breaking every import of it
+function readBackend(value: string | undefined): StorageBackendKind {
+  const backend = (value ?? 'helia') as StorageBackendKind;
+  if (!BACKENDS.includes(backend)) {
+    console.warn(`Unknown storage backend "${value}"; expected one of ${BACKENDS.join(', ')}, using helia`);
+    return 'helia';
+  }
+  return backend;
+}
+
+// Unpinned blocks beyond this are evicted; pinned ones are always kept
+const DEFAULT_HELIA_MAX_BYTES = 1024 * 1024 * 1024;
+
+function readByteLimit(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_HELIA_MAX_BYTES;
+  const bytes = Number(value);
+  if (value.trim() === '' || !Number.isSafeInteger(bytes) || bytes <= 0) {
+    console.warn(`Storage limit "${value}" must be a positive number of bytes, using ${DEFAULT_HELIA_MAX_BYTES}`);
+    return DEFAULT_HELIA_MAX_BYTES;
+  }
+  return bytes;
+}
+
+export const storageConfig: StorageConfig = {
+  backend: readBackend(process.env.NEXT_PUBLIC_STORAGE_BACKEND),
+  kuboApiUrl: process.env.NEXT_PUBLIC_KUBO_API_URL ?? 'http://127.0.0.1:5001/api/v0',
+  w3upSpace: process.env.NEXT_PUBLIC_W3UP_SPACE,
+  w3upDelegationUrl: process.env.NEXT_PUBLIC_W3UP_DELEGATION_URL,
+  gatewayUrl: process.env.NEXT_PUBLIC_IPFS_GATEWAY ?? 'https://ipfs.io/ipfs/',
+  heliaMaxBytes: readByteLimit(process.env.NEXT_PUBLIC_HELIA_MAX_BYTES),
+  heliaRepoPath: process.env.HELIA_REPO_PATH ?? '.helia',
+};
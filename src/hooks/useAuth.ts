@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { productionAuthService, AuthState, UserProfile } from '@/services/authService';
 import { User } from 'firebase/auth';
+import type { VaultRecord } from '@/services/vault';
 
 export interface UseAuthReturn {
   user: User | null;
@@ -14,6 +15,7 @@ export interface UseAuthReturn {
   createAccountWithEmail: (email: string, password: string, displayName: string) => Promise<void>;
   signOut: () => Promise<void>;
   linkWalletAddress: (walletAddress: string) => Promise<void>;
+  saveVaultRecord: (vault: VaultRecord) => Promise<void>;
   registerAsProvider: () => Promise<void>;
   updateStorageUsage: (bytesUsed: number) => Promise<void>;
   hasStorageSpace: (requiredBytes: number) => Promise<boolean>;
@@ -104,6 +106,18 @@ export function useAuth(): UseAuthReturn {
     }
   };
 
+  const saveVaultRecord = async (vault: VaultRecord) => {
+    if (!authState.user) {
+      throw new Error('User not authenticated');
+    }
+    try {
+      await productionAuthService.saveVaultRecord(authState.user.uid, vault);
+    } catch (error) {
+      console.error('Vault save failed:', error);
+      throw error;
+    }
+  };
+
   const registerAsProvider = async () => {
     if (!authState.user) {
       throw new Error('User not authenticated');
@@ -160,6 +174,7 @@ export function useAuth(): UseAuthReturn {
     createAccountWithEmail,
     signOut,
     linkWalletAddress,
+    saveVaultRecord,
     registerAsProvider,
     updateStorageUsage,
     hasStorageSpace,
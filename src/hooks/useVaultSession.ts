@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { vaultService } from '@/services/vault';
+import { closeAllMediaStreams } from '@/services/mediaStream';
+
+export interface VaultSessionSettings {
+  idleMinutes: number; // 0 never locks for inactivity
+  lockWhenHidden: boolean;
+}
+
+export interface UseVaultSessionReturn {
+  unlocked: boolean;
+  lock: () => void;
+  settings: VaultSessionSettings;
+  updateSettings: (updates: Partial<VaultSessionSettings>) => void;
+}
+
+export const IDLE_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+const SETTINGS_STORAGE_KEY = 'web3-dropbox-vault-session';
+const DEFAULT_SETTINGS: VaultSessionSettings = { idleMinutes: 15, lockWhenHidden: true };
+const IDLE_CHECK_INTERVAL_MS = 15000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+function loadSettings(): VaultSessionSettings {
+  if (typeof localStorage === 'undefined') return DEFAULT_SETTINGS;
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Tracks whether the vault is unlocked and locks it after a period without
+// user activity or when the tab is hidden. While `busy` (an upload still
+// needs the vault) a due lock is held back until the work finishes.
+export function useVaultSession(busy = false): UseVaultSessionReturn {
+  const [unlocked, setUnlocked] = useState(() => vaultService.isUnlocked());
+  const [settings, setSettings] = useState<VaultSessionSettings>(loadSettings);
+  const lastActivity = useRef(Date.now());
+  const lockPending = useRef(false);
+  const busyRef = useRef(busy);
+
+  const lock = useCallback(() => {
+    lockPending.current = false;
+    vaultService.lock();
+  }, []);
+
+  const requestLock = useCallback(() => {
+    if (busyRef.current) {
+      lockPending.current = true;
+    } else {
+      lock();
+    }
+  }, [lock]);
+
+  // However the vault locks, media opened with its keys stops playing
+  useEffect(() => vaultService.subscribe(isUnlocked => {
+    setUnlocked(isUnlocked);
+    if (!isUnlocked) {
+      closeAllMediaStreams();
+    }
+  }), []);
+
+  useEffect(() => {
+    busyRef.current = busy;
+    if (!busy && lockPending.current) {
+      lock();
+    }
+  }, [busy, lock]);
+
+  // Inactivity timer
+  useEffect(() => {
+    if (!unlocked || settings.idleMinutes === 0) return;
+
+    lastActivity.current = Date.now();
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActive, { passive: true }));
+
+    const idleMs = settings.idleMinutes * 60 * 1000;
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity.current >= idleMs) {
+        requestLock();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActive));
+    };
+  }, [unlocked, settings.idleMinutes, requestLock]);
+
+  // Lock when the user switches away from the tab
+  useEffect(() => {
+    if (!unlocked || !settings.lockWhenHidden) return;
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        requestLock();
+      }
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [unlocked, settings.lockWhenHidden, requestLock]);
+
+  const updateSettings = useCallback((updates: Partial<VaultSessionSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...updates };
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { unlocked, lock, settings, updateSettings };
+}
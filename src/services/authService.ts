@@ -20,9 +20,11 @@ import {
   where,
   getDocs,
   writeBatch,
-  increment
+  increment,
+  deleteField
 } from 'firebase/firestore';
 import { auth, db, googleProvider, githubProvider, twitterProvider } from '@/config/firebase';
+import type { VaultRecord } from '@/services/vault';
 
 export interface UserProfile {
   uid: string;
@@ -30,6 +32,7 @@ export interface UserProfile {
   displayName: string;
   photoURL?: string;
   walletAddress?: string;
+  vault?: VaultRecord; // Wrapped master key, never the key itself
   storageUsed: number;
   storageLimit: number;
   isProvider: boolean;
@@ -44,6 +47,21 @@ export interface UserProfile {
   version: number; // For data migration
 }
 
+// What other users may read about an account, kept apart from the profile
+// so that users/{uid} stays readable by its owner only: the vault record
+// there is open to offline password guessing by anyone who can read it
+export interface PublicProfile {
+  email: string; // Sharers look recipients up by it
+  displayName: string;
+  publicKey?: string; // Sharing public key, copied from the vault identity
+  walletAddress?: string; // Manifests of this account must be signed by it
+}
+
+export const PUBLIC_PROFILES = 'publicKeys';
+
+// Version 2 moved the sharing public key out of users/{uid}
+const PROFILE_VERSION = 2;
+
 export interface AuthState {
   user: User | null;
   profile: UserProfile | null;
@@ -139,7 +157,7 @@ class ProductionAuthService {
           data.email !== user.email ||
           data.displayName !== user.displayName ||
           data.photoURL !== user.photoURL ||
-          !data.version || data.version < 1;
+          !data.version || data.version < PROFILE_VERSION;
 
         if (needsUpdate) {
           await this.updateExistingProfile(userRef, user, data);
@@ -174,7 +192,7 @@ class ProductionAuthService {
       createdAt: now,
       lastLoginAt: now,
       plan: 'free',
-      version: 1
+      version: PROFILE_VERSION
     };
 
     // Only add photoURL if it exists
@@ -184,6 +202,7 @@ class ProductionAuthService {
 
     const userRef = doc(db, 'users', user.uid);
     await setDoc(userRef, profileData);
+    await this.publishProfile(user.uid, { email: profileData.email, displayName: profileData.displayName });
 
     return { uid: user.uid, ...profileData } as UserProfile;
   }
@@ -193,8 +212,12 @@ class ProductionAuthService {
     const updateData: any = {
       email: user.email || existingData.email,
       displayName: user.displayName || existingData.displayName,
-      version: 1
+      version: PROFILE_VERSION
     };
+    // Profiles before version 2 kept the public key here, readable by everyone
+    if (existingData.publicKey !== undefined) {
+      updateData.publicKey = deleteField();
+    }
 
     // Handle photoURL carefully
     if (user.photoURL) {
@@ -205,6 +228,18 @@ class ProductionAuthService {
     }
 
     await updateDoc(userRef, updateData);
+    await this.publishProfile(user.uid, {
+      email: updateData.email,
+      displayName: updateData.displayName,
+      publicKey: existingData.vault?.identity?.publicKey,
+      walletAddress: existingData.walletAddress
+    });
+  }
+
+  // Write what other users may see of an account to its public profile
+  private async publishProfile(uid: string, fields: Partial<PublicProfile>): Promise<void> {
+    const published = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    await setDoc(doc(db, PUBLIC_PROFILES, uid), { ...published, updatedAt: serverTimestamp() }, { merge: true });
   }
 
   // Create default profile for error cases
@@ -220,7 +255,7 @@ class ProductionAuthService {
       createdAt: new Date(),
       lastLoginAt: new Date(),
       plan: 'free',
-      version: 1
+      version: PROFILE_VERSION
     };
   }
 
@@ -327,8 +362,8 @@ class ProductionAuthService {
   async linkWalletAddress(uid: string, walletAddress: string): Promise<void> {
     try {
       // Check if wallet is already linked to another user
-      const usersRef = collection(db, 'users');
-      const q = query(usersRef, where('walletAddress', '==', walletAddress));
+      const profilesRef = collection(db, PUBLIC_PROFILES);
+      const q = query(profilesRef, where('walletAddress', '==', walletAddress));
       const querySnapshot = await getDocs(q);
       
       if (!querySnapshot.empty && querySnapshot.docs[0].id !== uid) {
@@ -337,12 +372,25 @@ class ProductionAuthService {
       
       // Link wallet to current user
       await this.updateUserProfile(uid, { walletAddress });
+      await this.publishProfile(uid, { walletAddress });
     } catch (error) {
       console.error('Error linking wallet address:', error);
       throw this.handleAuthError(error);
     }
   }
 
+  // Save the user's wrapped vault record
+  async saveVaultRecord(uid: string, vault: VaultRecord): Promise<void> {
+    try {
+      await this.updateUserProfile(uid, { vault });
+      // Sharers look the public key up in the public profile, never here
+      await this.publishProfile(uid, { publicKey: vault.identity?.publicKey });
+    } catch (error) {
+      console.error('Error saving vault record:', error);
+      throw this.handleAuthError(error);
+    }
+  }
+
   // Register as storage provider
   async registerAsProvider(uid: string): Promise<void> {
     try {
@@ -0,0 +1,117 @@
+// FastCDC-style content-defined chunking. Boundaries depend only on the
+// bytes around them, so an insert or delete early in a file shifts its
+// neighbouring chunks instead of every chunk after it.
+
+export interface CdcParams {
+  minSize: number;
+  avgSize: number; // Must be a power of two
+  maxSize: number;
+}
+
+export const DEFAULT_CDC: CdcParams = {
+  minSize: 256 * 1024,
+  avgSize: 1024 * 1024,
+  maxSize: 4 * 1024 * 1024,
+};
+
+// Gear hash table from a fixed xorshift32 seed. Changing it moves every
+// boundary and ends deduplication against existing uploads.
+const GEAR = new Uint32Array(256);
+let seed = 0x2545f491;
+for (let i = 0; i < 256; i++) {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  GEAR[i] = seed >>> 0;
+}
+
+/**
+ * Split a stream into content-defined chunks. Always yields at least one
+ * chunk so an empty file still has something to encrypt.
+ */
+export async function* chunkContentDefined(
+  stream: ReadableStream<Uint8Array>,
+  params: CdcParams = DEFAULT_CDC
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const { minSize, avgSize, maxSize } = params;
+  if (!(minSize > 0 && minSize <= avgSize && avgSize <= maxSize) || (avgSize & (avgSize - 1)) !== 0) {
+    throw new Error('Chunk sizes must satisfy min <= avg <= max with a power-of-two average');
+  }
+
+  // Normalized chunking: a stricter mask before the average size and a
+  // looser one after it keeps chunk sizes close to the average
+  const bits = Math.log2(avgSize);
+  const strictMask = topBits(bits + 2);
+  const looseMask = topBits(bits - 2);
+
+  const reader = stream.getReader();
+  let buffer = new Uint8Array(maxSize * 2);
+  let length = 0;
+  let done = false;
+  let emitted = false;
+
+  try {
+    for (;;) {
+      while (!done && length < maxSize) {
+        const next = await reader.read();
+        if (next.done) {
+          done = true;
+          break;
+        }
+        if (length + next.value.length > buffer.length) {
+          const grown = new Uint8Array(Math.max(buffer.length * 2, length + next.value.length));
+          grown.set(buffer.subarray(0, length));
+          buffer = grown;
+        }
+        buffer.set(next.value, length);
+        length += next.value.length;
+      }
+
+      if (length === 0) {
+        if (!emitted) yield new Uint8Array(0);
+        return;
+      }
+
+      const cut = findCutPoint(buffer, Math.min(length, maxSize), minSize, avgSize, strictMask, looseMask);
+      yield buffer.slice(0, cut);
+      buffer.copyWithin(0, cut, length);
+      length -= cut;
+      emitted = true;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Length of the chunk starting at data[0], looking at most `available` bytes ahead
+function findCutPoint(
+  data: Uint8Array,
+  available: number,
+  minSize: number,
+  avgSize: number,
+  strictMask: number,
+  looseMask: number
+): number {
+  if (available <= minSize) {
+    return available;
+  }
+
+  let hash = 0;
+  let i = minSize;
+  const normal = Math.min(available, avgSize);
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[data[i]]) >>> 0;
+    if ((hash & strictMask) === 0) return i + 1;
+  }
+  for (; i < available; i++) {
+    hash = ((hash << 1) + GEAR[data[i]]) >>> 0;
+    if ((hash & looseMask) === 0) return i + 1;
+  }
+  return available;
+}
+
+// The gear hash shifts left, so its high bits depend on the last 32 bytes
+// while its low bits only reflect the last few
+function topBits(count: number): number {
+  return (0xffffffff << (32 - count)) >>> 0;
+}
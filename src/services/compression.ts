@@ -0,0 +1,77 @@
+// Optional compression ahead of encryption. Ciphertext does not compress,
+// so this is the only point where text-like files can shrink before they
+// are stored and paid for.
+
+export type CompressionCodec = 'gzip';
+
+// Recorded in the metadata of compressed uploads
+export interface CompressionInfo {
+  codec: CompressionCodec;
+  compressedSize: number; // Bytes that went into encryption
+}
+
+// Bytes from the start of an unknown file used to judge compressibility
+const SAMPLE_SIZE = 64 * 1024;
+// The sample must shrink to at most this fraction of its size
+const MAX_COMPRESSED_RATIO = 0.9;
+
+const COMPRESSIBLE_TYPES = /^(text\/|image\/svg\+xml$|application\/(json|xml|javascript|x-ndjson|x-yaml|yaml|sql|rtf)$|.+\+(json|xml)$)/;
+// Already compressed formats gain nothing and would only cost CPU
+const COMPRESSED_TYPES = /^(image\/|video\/|audio\/|font\/woff2?$|application\/(zip|gzip|x-gzip|x-7z-compressed|x-rar-compressed|vnd\.rar|x-bzip2|x-xz|zstd)$)/;
+
+/**
+ * Pick a codec for a file from its MIME type, sampling the first bytes
+ * when the type does not settle it. Returns undefined to store it as is.
+ */
+export async function chooseCompression(file: Blob): Promise<CompressionCodec | undefined> {
+  if (file.size === 0) return undefined;
+
+  const type = file.type.toLowerCase();
+  if (COMPRESSIBLE_TYPES.test(type)) return 'gzip';
+  if (COMPRESSED_TYPES.test(type)) return undefined;
+
+  const sample = new Uint8Array(await file.slice(0, SAMPLE_SIZE).arrayBuffer());
+  const compressed = await compressBytes(sample, 'gzip');
+  return compressed.byteLength <= sample.byteLength * MAX_COMPRESSED_RATIO ? 'gzip' : undefined;
+}
+
+// The DOM typings only accept BufferSource writes; every Uint8Array we pass is one
+export function compressStream(
+  stream: ReadableStream<Uint8Array>,
+  codec: CompressionCodec
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(new CompressionStream(codec) as TransformStream<Uint8Array, Uint8Array>);
+}
+
+export function decompressStream(
+  stream: ReadableStream<Uint8Array>,
+  codec: CompressionCodec
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(new DecompressionStream(codec) as TransformStream<Uint8Array, Uint8Array>);
+}
+
+export async function compressBytes(
+  data: Uint8Array<ArrayBuffer>,
+  codec: CompressionCodec
+): Promise<Uint8Array<ArrayBuffer>> {
+  return collect(compressStream(new Blob([data]).stream(), codec));
+}
+
+export async function decompressBytes(
+  data: Uint8Array<ArrayBuffer>,
+  codec: CompressionCodec
+): Promise<Uint8Array<ArrayBuffer>> {
+  return collect(decompressStream(new Blob([data]).stream(), codec));
+}
+
+/**
+ * Bytes actually encrypted and stored for a file, which is what storage
+ * is charged for
+ */
+export function payloadSize(metadata: { fileSize: number; compression?: CompressionInfo }): number {
+  return metadata.compression?.compressedSize ?? metadata.fileSize;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
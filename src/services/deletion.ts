@@ -0,0 +1,236 @@
+import { EncryptionService, KeyManager } from '@/services/encryption';
+import { keyring } from '@/services/keyring';
+import { fileKeyService } from '@/services/fileKeys';
+import { vaultService } from '@/services/vault';
+import { sharingService } from '@/services/sharing';
+import { hasBlock, removeFromIPFS } from '@/services/ipfs';
+import { isSealedManifest, openManifest, ManifestBody, LegacyManifest, StoredManifest } from '@/services/manifest';
+import { payloadSize } from '@/services/compression';
+
+// Deleting a file by crypto-shredding. IPFS content cannot be recalled from
+// nodes that already fetched it, so a file is deleted by destroying every
+// copy of its key that can be reached: the per-file key record, the keyring
+// entry, the key remembered for the session and the share grants wrapped
+// for other users. The blocks this node holds are removed too, and the
+// storage charged for them is credited back. The receipt records what was
+// destroyed and what could not be, with a digest so it can be checked again
+// later. Files whose manifest carries a key the owner can still open cannot
+// be shredded, and their receipt says so.
+
+const RECEIPT_FORMAT = 'web3-dropbox-deletion-receipt';
+const RECEIPT_VERSION = 2; // 1 had no fileKeyRecord or shredded
+const KEY_COMMITMENT_CONTEXT = 'web3-dropbox/deletion/v1';
+
+export interface DeletionReceipt {
+  format: typeof RECEIPT_FORMAT;
+  version: 1 | 2;
+  manifestCid: string;
+  fileName: string;
+  ownerUid: string;
+  deletedAt: string; // ISO 8601
+  keyCommitment: string | null; // SHA-256 binding the destroyed key to the manifest; null when the key was lost
+  shredded: boolean; // No copy of the key is left that the owner's secrets can still open
+  destroyed: {
+    fileKeyRecord: boolean;
+    keyringEntry: boolean;
+    sessionKey: boolean;
+    shareGrants: string[]; // Firestore ids of the revoked grants
+  };
+  removedCids: string[]; // Manifest, chunks and parity this node no longer holds
+  keptCids: string[]; // Content-defined chunks other files may share
+  removedBlocks: number;
+  bytesCredited: number; // Only for content this node removed
+  residual: string[]; // Copies this deletion could not reach
+  digest: string; // SHA-256 over every field above
+}
+
+export interface DeletionTarget {
+  ownerUid: string;
+  manifestCid: string;
+  fileName: string;
+  manifest: StoredManifest | null; // Null when the manifest could not be fetched
+  key: CryptoKey | null; // Extractable file key; null when it could not be recovered
+}
+
+export interface ReceiptCheck {
+  intact: boolean; // The digest still matches the fields
+  findings: string[]; // Copies that exist again or were never gone
+}
+
+/**
+ * Why deleting a file cannot destroy its key, or null if it can. The
+ * manifest stays on IPFS, so a key inside it outlives the deletion.
+ */
+export function undeletableKeyCopy(manifest: StoredManifest): string | null {
+  const wrappedKey = isSealedManifest(manifest) ? manifest.header.wrappedKey : manifest.wrappedKey;
+  if (wrappedKey) {
+    return 'Its manifest holds the key wrapped by your vault, so your vault password, recovery phrase or guardians still open it from any copy of the manifest.';
+  }
+  if (!isSealedManifest(manifest) && manifest.encryptionKey) {
+    return 'This file predates sealed manifests and its manifest holds the key in plain text.';
+  }
+  return null;
+}
+
+/**
+ * Destroy every reachable copy of a file's key, remove its blocks from
+ * this node and credit the storage back. `updateStorageUsage` is the same
+ * function uploads are charged through.
+ */
+export async function shredFile(
+  target: DeletionTarget,
+  updateStorageUsage: (bytesUsed: number) => Promise<void>
+): Promise<DeletionReceipt> {
+  const { manifestCid, manifest, key } = target;
+  const residual: string[] = [];
+
+  // Work out what was stored before the key that describes it is gone
+  let body: ManifestBody | LegacyManifest | null = null;
+  if (manifest && !isSealedManifest(manifest)) {
+    body = manifest;
+  } else if (manifest && key) {
+    body = await openManifest(manifest, key);
+  } else {
+    residual.push('The file key could not be recovered, so its chunks could not be listed; they stay stored and no storage was credited.');
+  }
+  const keyCommitment = key ? await commitToKey(manifestCid, key) : null;
+
+  // Destroy the key
+  const fileKeyRecord = await fileKeyService.deleteFileKey(target.ownerUid, manifestCid);
+  const keyringEntry = (await keyring.get(manifestCid)) !== undefined;
+  await KeyManager.removeKey(manifestCid);
+  const sessionKey = vaultService.forgetFileKey(manifestCid);
+  const shareGrants = await sharingService.revokeFileGrants(target.ownerUid, manifestCid);
+
+  // Convergent chunks may be reused by other files, so only unique ones go
+  const shared = body?.encryption === 'aes-gcm-cdc';
+  const chunkCids = body ? [...body.chunkHashes, ...('erasure' in body ? body.erasure?.parityHashes ?? [] : [])] : [];
+  const removedCids = [manifestCid, ...(shared ? [] : chunkCids)];
+  let removedBlocks = 0;
+  for (const cid of removedCids) {
+    removedBlocks += await removeFromIPFS(cid);
+  }
+
+  // Kept chunks stay charged, since they stay stored
+  const bytesCredited = body && !shared ? payloadSize(body) : 0;
+  if (bytesCredited > 0) {
+    await updateStorageUsage(-bytesCredited);
+  }
+
+  const keptKey = manifest ? undeletableKeyCopy(manifest) : 'The manifest could not be fetched, so whether it holds the key is unknown.';
+  if (keptKey) {
+    residual.push(keptKey);
+  }
+  if (keyringEntry) {
+    residual.push('Key backups exported before this deletion still contain the key.');
+  }
+  if (shareGrants.length > 0) {
+    residual.push('Recipients who already opened a shared copy may have kept the key or the file.');
+  }
+  if (shared) {
+    residual.push('Deduplicated chunks were kept because other files may use them, and their storage was not credited.');
+  }
+  residual.push('Blocks that other IPFS nodes fetched or pinned cannot be deleted from here.');
+
+  const receipt: Omit<DeletionReceipt, 'digest'> = {
+    format: RECEIPT_FORMAT,
+    version: RECEIPT_VERSION,
+    manifestCid,
+    fileName: target.fileName,
+    ownerUid: target.ownerUid,
+    deletedAt: new Date().toISOString(),
+    keyCommitment,
+    shredded: keptKey === null,
+    destroyed: { fileKeyRecord, keyringEntry, sessionKey, shareGrants },
+    removedCids,
+    keptCids: shared ? chunkCids : [],
+    removedBlocks,
+    bytesCredited,
+    residual,
+  };
+  return { ...receipt, digest: await digestReceipt(receipt) };
+}
+
+/**
+ * Check that a receipt is unmodified and that every copy it says was
+ * destroyed is still gone
+ */
+export async function verifyDeletionReceipt(file: Blob): Promise<ReceiptCheck> {
+  let receipt: DeletionReceipt;
+  try {
+    receipt = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Not a deletion receipt');
+  }
+  if (
+    receipt?.format !== RECEIPT_FORMAT ||
+    (receipt.version !== 1 && receipt.version !== RECEIPT_VERSION) ||
+    typeof receipt.digest !== 'string' ||
+    typeof receipt.destroyed !== 'object' ||
+    !Array.isArray(receipt.removedCids)
+  ) {
+    throw new Error('Not a deletion receipt');
+  }
+
+  const intact = await digestReceipt(receipt) === receipt.digest;
+  const findings: string[] = [];
+  if (receipt.version !== 1 && !receipt.shredded) {
+    findings.push('The file was never shredded: a key its owner can open was left in the manifest.');
+  }
+  if (await fileKeyService.getFileKey(receipt.ownerUid, receipt.manifestCid)) {
+    findings.push('The key record for this file exists again.');
+  }
+  if (await keyring.get(receipt.manifestCid)) {
+    findings.push('The keyring holds a key for this file again, e.g. from a restored backup.');
+  }
+  if (vaultService.getRememberedFileKey(receipt.manifestCid)) {
+    findings.push('The key is remembered in this session.');
+  }
+  const grants = await sharingService.listFileGrants(receipt.ownerUid, receipt.manifestCid);
+  if (grants.length > 0) {
+    findings.push(`${grants.length} share grants for this file exist.`);
+  }
+  for (const cid of receipt.removedCids) {
+    if (await hasBlock(cid)) {
+      findings.push(`This node holds ${cid} again.`);
+    }
+  }
+  return { intact, findings };
+}
+
+// SHA-256 of the manifest CID and the raw key, so a receipt names the key it
+// destroyed without revealing it
+async function commitToKey(manifestCid: string, key: CryptoKey): Promise<string> {
+  const context = new TextEncoder().encode(`${KEY_COMMITMENT_CONTEXT}:${manifestCid}:`);
+  const raw = new Uint8Array(await EncryptionService.exportKey(key));
+  const input = new Uint8Array(context.length + raw.length);
+  input.set(context);
+  input.set(raw, context.length);
+  raw.fill(0);
+  return EncryptionService.generateHash(input.buffer);
+}
+
+// Digest over the fields in a fixed order, however the receipt was parsed.
+// Version 1 receipts are digested without the fields added since.
+async function digestReceipt(receipt: Omit<DeletionReceipt, 'digest'>): Promise<string> {
+  const added = receipt.version === 1 ? [] : [receipt.shredded, receipt.destroyed.fileKeyRecord];
+  const canonical = JSON.stringify([
+    receipt.format,
+    receipt.version,
+    receipt.manifestCid,
+    receipt.fileName,
+    receipt.ownerUid,
+    receipt.deletedAt,
+    receipt.keyCommitment,
+    ...added,
+    receipt.destroyed.keyringEntry,
+    receipt.destroyed.sessionKey,
+    receipt.destroyed.shareGrants,
+    receipt.removedCids,
+    receipt.keptCids,
+    receipt.removedBlocks,
+    receipt.bytesCredited,
+    receipt.residual,
+  ]);
+  return EncryptionService.generateHash(new TextEncoder().encode(canonical).buffer);
+}
@@ -1,8 +1,72 @@
+import { CURRENT_KDF, LEGACY_KDF, KdfParams, deriveKdfBits, isCurrentKdf, validateKdfParams } from '@/services/kdf';
+import { hashLeaf, computeMerkleRoot, isBytes32 } from '@/services/merkle';
+import { chunkContentDefined } from '@/services/chunker';
+import { keyring, KeyringEntry, WrappedKeyFields } from '@/services/keyring';
+import { CompressionCodec, CompressionInfo, chooseCompression, compressBytes, compressStream, decompressBytes, decompressStream, payloadSize } from '@/services/compression';
+
+// Metadata for files encrypted chunk by chunk with encryptStream
+export interface StreamingFileMetadata {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  encryption: 'aes-gcm-stream';
+  noncePrefix: string;
+  chunkSize: number;
+  compression?: CompressionInfo; // Chunks hold the compressed bytes; fileSize stays the original size
+  salt?: string;
+  kdf?: KdfParams; // Set with salt; absent means LEGACY_KDF
+  merkleRoot: string; // bytes32 hex from merkle.ts; bare hex roots use the legacy tree
+  chunkCount: number;
+}
+
+// Metadata for files split at content-defined boundaries. Each chunk is
+// encrypted under a key derived from its own plaintext, so unchanged
+// chunks of an edited file encrypt to the same bytes and the same CID.
+export interface ContentDefinedFileMetadata {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  encryption: 'aes-gcm-cdc';
+  chunkLengths: number[]; // Bytes encrypted in each chunk, after compression
+  chunkKeys: string[]; // Base64 AES-256 key of each chunk
+  compression?: CompressionInfo; // Each chunk is compressed on its own
+  salt?: string;
+  kdf?: KdfParams;
+  merkleRoot: string;
+  chunkCount: number;
+}
+
+export type ChunkedFileMetadata = StreamingFileMetadata | ContentDefinedFileMetadata;
+
+// How a file is cut into chunks before encryption
+export type ChunkingStrategy = 'fixed' | 'content-defined';
+
+// Secret a storage key can be derived from
+export type KeySource =
+  | { type: 'password'; password: string }
+  | { type: 'wallet'; address: string; signature: string };
+
+// File key wrapped for one recipient's public key
+export interface RecipientWrappedKey {
+  ephemeralPublicKey: string;
+  wrappedKey: string;
+}
+
+// Arbitrary bytes encrypted for one recipient's public key
+export interface RecipientSealedData {
+  ephemeralPublicKey: string;
+  ciphertext: string;
+}
+
 // Client-side encryption service using Web Crypto API
 export class EncryptionService {
   private static readonly ALGORITHM = 'AES-GCM';
   private static readonly KEY_LENGTH = 256;
   private static readonly IV_LENGTH = 12; // 96 bits for GCM
+  private static readonly NONCE_PREFIX_LENGTH = 7; // + 4 byte counter + 1 byte final flag
+  static readonly STREAM_CHUNK_SIZE = 1024 * 1024; // 1MB plaintext per chunk
+  private static readonly TAG_LENGTH = 16; // AES-GCM tag appended to every chunk
+  private static readonly SHARING_CURVE = 'P-256';
 
   /**
    * Generate a new encryption key
@@ -28,7 +92,10 @@ export class EncryptionService {
   /**
    * Import key from raw format
    */
-  static async importKey(keyData: ArrayBuffer): Promise<CryptoKey> {
+  static async importKey(
+    keyData: ArrayBuffer,
+    usages: KeyUsage[] = ['encrypt', 'decrypt']
+  ): Promise<CryptoKey> {
     return await crypto.subtle.importKey(
       'raw',
       keyData,
@@ -37,7 +104,7 @@ export class EncryptionService {
         length: this.KEY_LENGTH,
       },
       true,
-      ['encrypt', 'decrypt']
+      usages
     );
   }
 
@@ -85,7 +152,7 @@ export class EncryptionService {
   static async decryptFile(
     encryptedData: ArrayBuffer,
     key: CryptoKey,
-    iv: Uint8Array,
+    iv: Uint8Array<ArrayBuffer>,
     fileName: string,
     mimeType: string
   ): Promise<File> {
@@ -149,7 +216,8 @@ export class EncryptionService {
   }
 
   /**
-   * Create Merkle tree root for proof of storage
+   * Legacy Merkle root over hex digest strings, kept to verify files
+   * uploaded before merkle.ts. New uploads use computeMerkleRoot.
    */
   static async createMerkleRoot(chunks: ArrayBuffer[]): Promise<string> {
     if (chunks.length === 0) return '';
@@ -159,6 +227,15 @@ export class EncryptionService {
       chunks.map(chunk => this.generateHash(chunk))
     );
     
+    return this.createMerkleRootFromHashes(hashes);
+  }
+
+  /**
+   * Legacy Merkle root from already computed chunk hex digests
+   */
+  static async createMerkleRootFromHashes(hashes: string[]): Promise<string> {
+    if (hashes.length === 0) return '';
+
     // Build Merkle tree
     let currentLevel = hashes;
     
@@ -183,43 +260,308 @@ export class EncryptionService {
   }
 
   /**
-   * Derive key from password using PBKDF2
+   * Derive key from password with the given KDF; defaults to the
+   * PBKDF2 settings used before parameters were recorded
    */
   static async deriveKeyFromPassword(
     password: string,
-    salt: Uint8Array
+    salt: Uint8Array<ArrayBuffer>,
+    kdf: KdfParams = LEGACY_KDF,
+    usages?: KeyUsage[]
   ): Promise<CryptoKey> {
-    // Import password as key material
+    const keyData = await deriveKdfBits(password, salt, kdf, this.KEY_LENGTH);
+    return await this.importKey(keyData, usages);
+  }
+
+  /**
+   * Fixed, domain-separated message a wallet signs to derive keys.
+   * Wallets sign deterministically, so the same account always yields the same keys.
+   */
+  static walletKeyMessage(address: string): string {
+    return [
+      'Web3 Dropbox key derivation',
+      '',
+      'Signing this message derives the key that protects your encrypted files.',
+      'Only sign it inside Web3 Dropbox. It does not send a transaction or cost gas.',
+      '',
+      `Account: ${address.toLowerCase()}`,
+      'Version: 1',
+    ].join('\n');
+  }
+
+  /**
+   * Derive key material from a wallet signature with HKDF-SHA256.
+   * The signed message is the HKDF salt and `info` separates each use.
+   */
+  static async deriveBitsFromWalletSignature(
+    signature: string,
+    address: string,
+    info: string,
+    length: number = this.KEY_LENGTH
+  ): Promise<ArrayBuffer> {
     const keyMaterial = await crypto.subtle.importKey(
       'raw',
-      new TextEncoder().encode(password),
-      'PBKDF2',
+      this.hexToArrayBuffer(signature),
+      'HKDF',
       false,
-      ['deriveKey']
+      ['deriveBits']
     );
 
-    // Derive actual encryption key
-    return await crypto.subtle.deriveKey(
+    return await crypto.subtle.deriveBits(
       {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 100000,
+        name: 'HKDF',
         hash: 'SHA-256',
+        salt: await crypto.subtle.digest('SHA-256', new TextEncoder().encode(this.walletKeyMessage(address))),
+        info: new TextEncoder().encode(info),
       },
       keyMaterial,
+      length
+    );
+  }
+
+  /**
+   * Derive encryption key from a wallet signature, mixing in a per-use salt
+   */
+  static async deriveKeyFromWalletSignature(
+    signature: string,
+    address: string,
+    salt: Uint8Array<ArrayBuffer>,
+    usages: KeyUsage[] = ['encrypt', 'decrypt']
+  ): Promise<CryptoKey> {
+    const keyMaterial = await this.deriveBitsFromWalletSignature(
+      signature,
+      address,
+      'web3-dropbox/wallet/storage-key/v1'
+    );
+    const baseKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt,
+        info: new TextEncoder().encode('web3-dropbox/wallet/storage-key/salted/v1'),
+      },
+      baseKey,
       {
         name: this.ALGORITHM,
         length: this.KEY_LENGTH,
       },
       true,
+      usages
+    );
+  }
+
+  /**
+   * Derive encryption key from whichever secret the user supplied
+   */
+  static async deriveKeyFromSource(
+    source: KeySource,
+    salt: Uint8Array<ArrayBuffer>,
+    kdf: KdfParams = LEGACY_KDF,
+    usages?: KeyUsage[]
+  ): Promise<CryptoKey> {
+    switch (source.type) {
+      case 'password':
+        return this.deriveKeyFromPassword(source.password, salt, kdf, usages);
+      case 'wallet':
+        return this.deriveKeyFromWalletSignature(source.signature, source.address, salt, usages);
+    }
+  }
+
+  /**
+   * Generate an ECDH key pair for receiving shared file keys
+   */
+  static async generateSharingKeyPair(): Promise<CryptoKeyPair> {
+    return await crypto.subtle.generateKey(
+      { name: 'ECDH', namedCurve: this.SHARING_CURVE },
+      true, // extractable so the private key can be wrapped by the vault
+      ['deriveBits']
+    );
+  }
+
+  /**
+   * Export an ECDH public key as base64 of the raw curve point
+   */
+  static async exportPublicKey(publicKey: CryptoKey): Promise<string> {
+    return this.arrayBufferToBase64(await crypto.subtle.exportKey('raw', publicKey));
+  }
+
+  /**
+   * Import a base64 raw ECDH public key
+   */
+  static async importPublicKey(publicKey: string): Promise<CryptoKey> {
+    return await crypto.subtle.importKey(
+      'raw',
+      this.base64ToArrayBuffer(publicKey),
+      { name: 'ECDH', namedCurve: this.SHARING_CURVE },
+      true,
+      []
+    );
+  }
+
+  /**
+   * Wrap a file key so only the holder of the recipient's private key can
+   * recover it. A fresh ephemeral key pair is used for every wrap.
+   */
+  static async wrapKeyForRecipient(
+    fileKey: CryptoKey,
+    recipientPublicKey: string
+  ): Promise<RecipientWrappedKey> {
+    const ephemeral = await this.generateSharingKeyPair();
+    const ephemeralPublicKey = await this.exportPublicKey(ephemeral.publicKey);
+    const kek = await this.deriveSharingKek(
+      ephemeral.privateKey,
+      await this.importPublicKey(recipientPublicKey),
+      ephemeralPublicKey,
+      recipientPublicKey,
+      'wrapKey'
+    );
+
+    const wrappedKey = await crypto.subtle.wrapKey('raw', fileKey, kek, 'AES-KW');
+    return {
+      ephemeralPublicKey,
+      wrappedKey: this.arrayBufferToBase64(wrappedKey),
+    };
+  }
+
+  /**
+   * Recover a file key wrapped with wrapKeyForRecipient
+   */
+  static async unwrapKeyFromSender(
+    wrapped: RecipientWrappedKey,
+    recipientPrivateKey: CryptoKey,
+    recipientPublicKey: string
+  ): Promise<CryptoKey> {
+    const kek = await this.deriveSharingKek(
+      recipientPrivateKey,
+      await this.importPublicKey(wrapped.ephemeralPublicKey),
+      wrapped.ephemeralPublicKey,
+      recipientPublicKey,
+      'unwrapKey'
+    );
+
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      this.base64ToArrayBuffer(wrapped.wrappedKey),
+      kek,
+      'AES-KW',
+      { name: this.ALGORITHM, length: this.KEY_LENGTH },
+      true,
       ['encrypt', 'decrypt']
     );
   }
 
+  /**
+   * Encrypt bytes that are not a key (such as a recovery share) so only the
+   * holder of the recipient's private key can read them
+   */
+  static async sealForRecipient(
+    data: Uint8Array<ArrayBuffer>,
+    recipientPublicKey: string
+  ): Promise<RecipientSealedData> {
+    const ephemeral = await this.generateSharingKeyPair();
+    const ephemeralPublicKey = await this.exportPublicKey(ephemeral.publicKey);
+    const kek = await this.deriveSharingKek(
+      ephemeral.privateKey,
+      await this.importPublicKey(recipientPublicKey),
+      ephemeralPublicKey,
+      recipientPublicKey,
+      'encrypt'
+    );
+
+    // The key is unique to this ephemeral key pair, so a fixed IV never repeats
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: this.ALGORITHM, iv: new Uint8Array(this.IV_LENGTH) },
+      kek,
+      data
+    );
+    return {
+      ephemeralPublicKey,
+      ciphertext: this.arrayBufferToBase64(ciphertext),
+    };
+  }
+
+  /**
+   * Decrypt bytes sealed with sealForRecipient
+   */
+  static async openFromSender(
+    sealed: RecipientSealedData,
+    recipientPrivateKey: CryptoKey,
+    recipientPublicKey: string
+  ): Promise<ArrayBuffer> {
+    const kek = await this.deriveSharingKek(
+      recipientPrivateKey,
+      await this.importPublicKey(sealed.ephemeralPublicKey),
+      sealed.ephemeralPublicKey,
+      recipientPublicKey,
+      'decrypt'
+    );
+
+    return await crypto.subtle.decrypt(
+      { name: this.ALGORITHM, iv: new Uint8Array(this.IV_LENGTH) },
+      kek,
+      this.base64ToArrayBuffer(sealed.ciphertext)
+    );
+  }
+
+  /**
+   * ECDH shared secret through HKDF, salted with both public keys. Key
+   * wrapping and sealing get separate labels so neither key can stand in
+   * for the other.
+   */
+  private static async deriveSharingKek(
+    privateKey: CryptoKey,
+    publicKey: CryptoKey,
+    ephemeralPublicKey: string,
+    recipientPublicKey: string,
+    usage: 'wrapKey' | 'unwrapKey' | 'encrypt' | 'decrypt'
+  ): Promise<CryptoKey> {
+    const sharedSecret = await crypto.subtle.deriveBits(
+      { name: 'ECDH', public: publicKey },
+      privateKey,
+      256
+    );
+    const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+    const sealing = usage === 'encrypt' || usage === 'decrypt';
+
+    const salt = new Uint8Array([
+      ...new Uint8Array(this.base64ToArrayBuffer(ephemeralPublicKey)),
+      ...new Uint8Array(this.base64ToArrayBuffer(recipientPublicKey)),
+    ]);
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt,
+        info: new TextEncoder().encode(sealing ? 'web3-dropbox/share/seal/v1' : 'web3-dropbox/share/key-wrap/v1'),
+      },
+      baseKey,
+      { name: sealing ? this.ALGORITHM : 'AES-KW', length: this.KEY_LENGTH },
+      false,
+      [usage]
+    );
+  }
+
+  /**
+   * Convert 0x-prefixed hex (e.g. a wallet signature) to ArrayBuffer
+   */
+  static hexToArrayBuffer(hex: string): ArrayBuffer {
+    const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+    if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+      throw new Error('Invalid hex string');
+    }
+    const bytes = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes.buffer;
+  }
+
   /**
    * Generate random salt for key derivation
    */
-  static generateSalt(): Uint8Array {
+  static generateSalt(): Uint8Array<ArrayBuffer> {
     return crypto.getRandomValues(new Uint8Array(16));
   }
 
@@ -267,7 +609,7 @@ export class EncryptionService {
     key: CryptoKey;
   }> {
     let key: CryptoKey;
-    let salt: Uint8Array | undefined;
+    let salt: Uint8Array<ArrayBuffer> | undefined;
 
     if (password) {
       // Derive key from password
@@ -304,6 +646,491 @@ export class EncryptionService {
     };
   }
 
+  /**
+   * Re-slice a byte stream into fixed-size chunks, flagging the last one.
+   * Always yields at least one chunk so an empty file still has a final chunk.
+   */
+  static async *rechunkStream(
+    stream: ReadableStream<Uint8Array>,
+    chunkSize: number = this.STREAM_CHUNK_SIZE
+  ): AsyncGenerator<{ data: Uint8Array<ArrayBuffer>; isFinal: boolean }> {
+    const reader = stream.getReader();
+    let current = new Uint8Array(chunkSize);
+    let filled = 0;
+    // A full chunk is held back until we know whether more data follows it
+    let pending: Uint8Array<ArrayBuffer> | null = null;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        let offset = 0;
+        while (offset < value.byteLength) {
+          const take = Math.min(chunkSize - filled, value.byteLength - offset);
+          current.set(value.subarray(offset, offset + take), filled);
+          filled += take;
+          offset += take;
+
+          if (filled === chunkSize) {
+            if (pending) yield { data: pending, isFinal: false };
+            pending = current;
+            current = new Uint8Array(chunkSize);
+            filled = 0;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (filled > 0) {
+      if (pending) yield { data: pending, isFinal: false };
+      yield { data: current.slice(0, filled), isFinal: true };
+    } else {
+      yield { data: pending ?? new Uint8Array(0), isFinal: true };
+    }
+  }
+
+  /**
+   * Build the nonce for chunk `index`: prefix || uint32 counter || final flag.
+   * Binding position and finality into the nonce makes reordered or truncated
+   * chunk sequences fail authentication.
+   */
+  private static streamNonce(
+    noncePrefix: Uint8Array,
+    index: number,
+    isFinal: boolean
+  ): Uint8Array<ArrayBuffer> {
+    const nonce = new Uint8Array(this.IV_LENGTH);
+    nonce.set(noncePrefix, 0);
+    new DataView(nonce.buffer).setUint32(this.NONCE_PREFIX_LENGTH, index);
+    nonce[this.IV_LENGTH - 1] = isFinal ? 1 : 0;
+    return nonce;
+  }
+
+  /**
+   * Generate random nonce prefix for a streamed file
+   */
+  static generateNoncePrefix(): Uint8Array<ArrayBuffer> {
+    return crypto.getRandomValues(new Uint8Array(this.NONCE_PREFIX_LENGTH));
+  }
+
+  /**
+   * Encrypt a stream chunk by chunk, each chunk authenticated on its own
+   */
+  static async *encryptStream(
+    stream: ReadableStream<Uint8Array>,
+    key: CryptoKey,
+    noncePrefix: Uint8Array,
+    chunkSize: number = this.STREAM_CHUNK_SIZE
+  ): AsyncGenerator<ArrayBuffer> {
+    let index = 0;
+    for await (const { data, isFinal } of this.rechunkStream(stream, chunkSize)) {
+      yield await crypto.subtle.encrypt(
+        {
+          name: this.ALGORITHM,
+          iv: this.streamNonce(noncePrefix, index, isFinal),
+        },
+        key,
+        data
+      );
+      index++;
+    }
+  }
+
+  /**
+   * Decrypt streamed chunks in order into a plaintext stream
+   */
+  static decryptStream(
+    chunks: AsyncIterable<ArrayBuffer>,
+    key: CryptoKey,
+    noncePrefix: Uint8Array,
+    chunkCount: number
+  ): ReadableStream<Uint8Array> {
+    const iterator = chunks[Symbol.asyncIterator]();
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.error(new Error('Encrypted stream ended early - file is truncated'));
+          return;
+        }
+
+        let plaintext: ArrayBuffer;
+        try {
+          plaintext = await crypto.subtle.decrypt(
+            {
+              name: this.ALGORITHM,
+              iv: this.streamNonce(noncePrefix, index, index === chunkCount - 1),
+            },
+            key,
+            next.value
+          );
+        } catch {
+          controller.error(
+            new Error(`Chunk ${index} failed authentication - chunks may be reordered or corrupted`)
+          );
+          return;
+        }
+
+        controller.enqueue(new Uint8Array(plaintext));
+        index++;
+        if (index === chunkCount) {
+          controller.close();
+        }
+      },
+      cancel: async () => {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  /**
+   * Pass a stream through unchanged, reporting the running byte total
+   */
+  private static countBytes(
+    stream: ReadableStream<Uint8Array>,
+    onCount: (total: number) => void
+  ): ReadableStream<Uint8Array> {
+    let total = 0;
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(data, controller) {
+          total += data.byteLength;
+          onCount(total);
+          controller.enqueue(data);
+        },
+      })
+    );
+  }
+
+  /**
+   * Hash chunks into Merkle leaves as they pass through, in order
+   */
+  private static async *hashChunks(
+    chunks: AsyncIterable<ArrayBuffer>,
+    leaves: Uint8Array[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ArrayBuffer> {
+    for await (const chunk of chunks) {
+      signal?.throwIfAborted();
+      leaves.push(await hashLeaf(chunk));
+      yield chunk;
+    }
+  }
+
+  /**
+   * Encrypt a file content-defined chunk by chunk. A chunk's key is an
+   * HMAC of its plaintext under the vault's convergence key, so a fixed
+   * zero nonce is never reused with different data. Chunks are compressed
+   * one by one so unchanged chunks still encrypt to the same bytes.
+   */
+  static async *encryptContentDefinedStream(
+    stream: ReadableStream<Uint8Array>,
+    convergenceKey: CryptoKey,
+    chunkKeys: string[],
+    chunkLengths: number[],
+    compression?: CompressionCodec
+  ): AsyncGenerator<ArrayBuffer> {
+    for await (const chunk of chunkContentDefined(stream)) {
+      const data = compression ? await compressBytes(chunk, compression) : chunk;
+      const keyData = await crypto.subtle.sign('HMAC', convergenceKey, data);
+      const key = await crypto.subtle.importKey('raw', keyData, this.ALGORITHM, false, ['encrypt']);
+      chunkKeys.push(this.arrayBufferToBase64(keyData));
+      chunkLengths.push(data.byteLength);
+      yield await crypto.subtle.encrypt(
+        { name: this.ALGORITHM, iv: new Uint8Array(this.IV_LENGTH) },
+        key,
+        data
+      );
+    }
+  }
+
+  /**
+   * Decrypt content-defined chunks in order into a plaintext stream
+   */
+  static decryptContentDefinedStream(
+    chunks: AsyncIterable<ArrayBuffer>,
+    chunkKeys: string[],
+    compression?: CompressionCodec
+  ): ReadableStream<Uint8Array> {
+    const iterator = chunks[Symbol.asyncIterator]();
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.error(new Error('Encrypted stream ended early - file is truncated'));
+          return;
+        }
+
+        let plaintext: ArrayBuffer;
+        try {
+          const key = await crypto.subtle.importKey(
+            'raw',
+            this.base64ToArrayBuffer(chunkKeys[index]),
+            this.ALGORITHM,
+            false,
+            ['decrypt']
+          );
+          plaintext = await crypto.subtle.decrypt(
+            { name: this.ALGORITHM, iv: new Uint8Array(this.IV_LENGTH) },
+            key,
+            next.value
+          );
+        } catch {
+          controller.error(
+            new Error(`Chunk ${index} failed authentication - chunks may be reordered or corrupted`)
+          );
+          return;
+        }
+
+        const data = new Uint8Array(plaintext);
+        controller.enqueue(compression ? await decompressBytes(data, compression) : data);
+        index++;
+        if (index === chunkKeys.length) {
+          controller.close();
+        }
+      },
+      cancel: async () => {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  /**
+   * Encrypt a file as a stream of independently authenticated chunks.
+   * Chunks are produced lazily; finalize() returns the metadata once all
+   * chunks have been consumed. Content-defined chunking needs the vault's
+   * convergence key and lets edited files reuse their unchanged chunks.
+   * Compressible files are compressed first, chosen by chooseCompression.
+   * onProgress reports how many bytes of the file have been read.
+   */
+  static async prepareFileStreamForStorage(
+    file: File,
+    password?: string,
+    options: {
+      chunking?: ChunkingStrategy;
+      convergenceKey?: CryptoKey;
+      onProgress?: (bytesRead: number) => void;
+      signal?: AbortSignal; // Checked once the key is ready and before each chunk
+    } = {}
+  ): Promise<{
+    chunks: AsyncGenerator<ArrayBuffer>;
+    finalize: () => Promise<ChunkedFileMetadata>;
+    key: CryptoKey;
+  }> {
+    const { chunking = 'fixed', convergenceKey, onProgress, signal } = options;
+    if (chunking === 'content-defined' && !convergenceKey) {
+      throw new Error('Content-defined chunking needs the vault convergence key');
+    }
+
+    let key: CryptoKey;
+    let salt: Uint8Array<ArrayBuffer> | undefined;
+
+    if (password) {
+      salt = this.generateSalt();
+      key = await this.deriveKeyFromPassword(password, salt, CURRENT_KDF);
+    } else {
+      key = await this.generateKey();
+    }
+    signal?.throwIfAborted();
+
+    const codec = await chooseCompression(file);
+    const noncePrefix = this.generateNoncePrefix();
+    const chunkKeys: string[] = [];
+    const chunkLengths: number[] = [];
+    let compressedSize = 0;
+    const leaves: Uint8Array[] = [];
+    const source = onProgress ? this.countBytes(file.stream(), onProgress) : file.stream();
+    const chunks = this.hashChunks(
+      convergenceKey && chunking === 'content-defined'
+        ? this.encryptContentDefinedStream(source, convergenceKey, chunkKeys, chunkLengths, codec)
+        : this.encryptStream(
+            codec
+              ? this.countBytes(compressStream(source, codec), total => { compressedSize = total; })
+              : source,
+            key,
+            noncePrefix
+          ),
+      leaves,
+      signal
+    );
+
+    const finalize = async (): Promise<ChunkedFileMetadata> => {
+      if (leaves.length === 0) {
+        throw new Error('Cannot finalize metadata before all chunks are consumed');
+      }
+
+      const common = {
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        compression: codec
+          ? {
+              codec,
+              compressedSize: chunking === 'content-defined'
+                ? chunkLengths.reduce((sum, length) => sum + length, 0)
+                : compressedSize,
+            }
+          : undefined,
+        salt: salt ? this.arrayBufferToBase64(salt.buffer) : undefined,
+        kdf: salt ? CURRENT_KDF : undefined,
+        merkleRoot: await computeMerkleRoot(leaves),
+        chunkCount: leaves.length,
+      };
+      if (chunking === 'content-defined') {
+        return { ...common, encryption: 'aes-gcm-cdc', chunkLengths, chunkKeys };
+      }
+      return {
+        ...common,
+        encryption: 'aes-gcm-stream',
+        noncePrefix: this.arrayBufferToBase64(noncePrefix.buffer),
+        chunkSize: this.STREAM_CHUNK_SIZE,
+      };
+    };
+
+    return { chunks, finalize, key };
+  }
+
+  /**
+   * Stored size of chunk `index` of a file encrypted with either chunking
+   */
+  static encryptedChunkLength(
+    metadata:
+      | Pick<StreamingFileMetadata, 'encryption' | 'fileSize' | 'compression' | 'chunkSize' | 'chunkCount'>
+      | Pick<ContentDefinedFileMetadata, 'encryption' | 'chunkLengths'>,
+    index: number
+  ): number {
+    if (metadata.encryption === 'aes-gcm-cdc') {
+      return metadata.chunkLengths[index] + this.TAG_LENGTH;
+    }
+    const plaintextLength = index < metadata.chunkCount - 1
+      ? metadata.chunkSize
+      : payloadSize(metadata) - (metadata.chunkCount - 1) * metadata.chunkSize;
+    return plaintextLength + this.TAG_LENGTH;
+  }
+
+  /**
+   * Decrypt streamed chunks into a plaintext stream, checking the Merkle
+   * root before the last chunk is released and decompressing if the
+   * upload was compressed. Content-defined chunks carry their own keys,
+   * so `key` only decrypts fixed-size streams.
+   */
+  static reconstructFileStream(
+    chunks: AsyncIterable<ArrayBuffer>,
+    metadata:
+      | Pick<StreamingFileMetadata, 'encryption' | 'noncePrefix' | 'compression' | 'merkleRoot' | 'chunkCount'>
+      | Pick<ContentDefinedFileMetadata, 'encryption' | 'chunkKeys' | 'compression' | 'merkleRoot' | 'chunkCount'>,
+    key: CryptoKey
+  ): ReadableStream<Uint8Array> {
+    const verified = this.verifyChunkStream(chunks, metadata.merkleRoot, metadata.chunkCount);
+    const codec = metadata.compression?.codec;
+    if (metadata.encryption === 'aes-gcm-cdc') {
+      return this.decryptContentDefinedStream(verified, metadata.chunkKeys, codec);
+    }
+    const noncePrefix = new Uint8Array(this.base64ToArrayBuffer(metadata.noncePrefix));
+    const plaintext = this.decryptStream(verified, key, noncePrefix, metadata.chunkCount);
+    return codec ? decompressStream(plaintext, codec) : plaintext;
+  }
+
+  /**
+   * Offset of each chunk's first byte within the encrypted payload,
+   * followed by the payload size
+   */
+  static chunkOffsets(
+    metadata:
+      | Pick<StreamingFileMetadata, 'encryption' | 'fileSize' | 'compression' | 'chunkSize' | 'chunkCount'>
+      | Pick<ContentDefinedFileMetadata, 'encryption' | 'chunkLengths'>
+  ): number[] {
+    if (metadata.encryption === 'aes-gcm-cdc') {
+      const offsets = [0];
+      for (const length of metadata.chunkLengths) {
+        offsets.push(offsets[offsets.length - 1] + length);
+      }
+      return offsets;
+    }
+    return Array.from({ length: metadata.chunkCount + 1 }, (_, i) =>
+      Math.min(i * metadata.chunkSize, payloadSize(metadata))
+    );
+  }
+
+  /**
+   * Decrypt one chunk on its own. Every chunk is authenticated
+   * separately, so any chunk can be read without the ones before it.
+   */
+  static async decryptChunk(
+    metadata:
+      | Pick<StreamingFileMetadata, 'encryption' | 'noncePrefix' | 'chunkCount'>
+      | Pick<ContentDefinedFileMetadata, 'encryption' | 'chunkKeys' | 'chunkCount'>,
+    key: CryptoKey,
+    index: number,
+    ciphertext: ArrayBuffer
+  ): Promise<ArrayBuffer> {
+    try {
+      if (metadata.encryption === 'aes-gcm-cdc') {
+        const chunkKey = await crypto.subtle.importKey(
+          'raw',
+          this.base64ToArrayBuffer(metadata.chunkKeys[index]),
+          this.ALGORITHM,
+          false,
+          ['decrypt']
+        );
+        return await crypto.subtle.decrypt(
+          { name: this.ALGORITHM, iv: new Uint8Array(this.IV_LENGTH) },
+          chunkKey,
+          ciphertext
+        );
+      }
+
+      const noncePrefix = new Uint8Array(this.base64ToArrayBuffer(metadata.noncePrefix));
+      return await crypto.subtle.decrypt(
+        {
+          name: this.ALGORITHM,
+          iv: this.streamNonce(noncePrefix, index, index === metadata.chunkCount - 1),
+        },
+        key,
+        ciphertext
+      );
+    } catch {
+      throw new Error(`Chunk ${index} failed authentication - chunks may be reordered or corrupted`);
+    }
+  }
+
+  /**
+   * Pass chunks through, verifying the Merkle root once the last one arrives
+   */
+  private static async *verifyChunkStream(
+    chunks: AsyncIterable<ArrayBuffer>,
+    merkleRoot: string,
+    chunkCount: number
+  ): AsyncGenerator<ArrayBuffer> {
+    // Uploads from before merkle.ts recorded bare hex roots of the legacy tree
+    const legacy = !isBytes32(merkleRoot);
+    const hashes: string[] = [];
+    const leaves: Uint8Array[] = [];
+    for await (const chunk of chunks) {
+      if (legacy) {
+        hashes.push(await this.generateHash(chunk));
+      } else {
+        leaves.push(await hashLeaf(chunk));
+      }
+      if (hashes.length + leaves.length === chunkCount) {
+        const calculatedRoot = legacy
+          ? await this.createMerkleRootFromHashes(hashes)
+          : await computeMerkleRoot(leaves);
+        if (calculatedRoot !== merkleRoot) {
+          throw new Error('File integrity check failed - chunks may be corrupted');
+        }
+      }
+      yield chunk;
+    }
+  }
+
   /**
    * Reconstruct file from distributed chunks
    */
@@ -341,73 +1168,52 @@ export class EncryptionService {
   }
 }
 
-// Utility functions for key management
+// Utility functions for key management, backed by the IndexedDB keyring
 export class KeyManager {
-  private static readonly STORAGE_KEY = 'web3-dropbox-keys';
-
   /**
-   * Store encrypted key in browser storage
+   * Store a file key in the keyring, protected by a password or wallet
+   * signature. The key must be extractable so it can be wrapped.
    */
   static async storeKey(
     fileHash: string,
     key: CryptoKey,
-    password: string
+    secret: string | KeySource,
+    label?: string
   ): Promise<void> {
-    const keyData = await EncryptionService.exportKey(key);
-    const salt = EncryptionService.generateSalt();
-    
-    // Derive encryption key from password
-    const storageKey = await EncryptionService.deriveKeyFromPassword(password, salt);
-    
-    // Encrypt the file key
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    const encryptedKey = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      storageKey,
-      keyData
-    );
-
-    // Store in localStorage
-    const stored = this.getStoredKeys();
-    stored[fileHash] = {
-      encryptedKey: EncryptionService.arrayBufferToBase64(encryptedKey),
-      iv: EncryptionService.arrayBufferToBase64(iv.buffer as ArrayBuffer),
-      salt: EncryptionService.arrayBufferToBase64(salt.buffer as ArrayBuffer),
-    };
-    
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+    await this.storeKeyEntry(fileHash, key, this.toKeySource(secret), label);
   }
 
   /**
-   * Retrieve and decrypt key from browser storage
+   * Retrieve a key from the keyring once the secret opens its wrapped copy.
+   * Keys come back non-extractable unless the caller has to re-wrap them,
+   * e.g. to share the file. Password entries derived with outdated KDF
+   * parameters are re-stored with current ones.
    */
   static async retrieveKey(
     fileHash: string,
-    password: string
+    secret: string | KeySource,
+    options: { extractable?: boolean } = {}
   ): Promise<CryptoKey | null> {
-    const stored = this.getStoredKeys();
-    const keyInfo = stored[fileHash];
+    const source = this.toKeySource(secret);
+    const keyInfo = await keyring.get(fileHash);
     
     if (!keyInfo) return null;
+    if (keyInfo.source !== source.type) return null;
 
     try {
-      // Convert from base64
-      const encryptedKey = EncryptionService.base64ToArrayBuffer(keyInfo.encryptedKey);
-      const iv = new Uint8Array(EncryptionService.base64ToArrayBuffer(keyInfo.iv));
-      const salt = new Uint8Array(EncryptionService.base64ToArrayBuffer(keyInfo.salt));
-      
-      // Derive decryption key
-      const storageKey = await EncryptionService.deriveKeyFromPassword(password, salt);
-      
-      // Decrypt the file key
-      const keyData = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        storageKey,
-        encryptedKey
-      );
-      
-      // Import as CryptoKey
-      return await EncryptionService.importKey(keyData);
+      if (source.type === 'password' && !isCurrentKdf(keyInfo.kdf ?? LEGACY_KDF)) {
+        const key = await this.unwrapKey(keyInfo, source, true);
+        const deviceKey = await this.storeKeyEntry(fileHash, key, source, keyInfo.label);
+        return options.extractable ? key : deviceKey;
+      }
+
+      const key = await this.unwrapKey(keyInfo, source, options.extractable ?? false);
+      if (options.extractable) return key;
+      if (!keyInfo.key) {
+        // Entries migrated or restored from a backup get their device copy on first use
+        await keyring.put({ ...keyInfo, key });
+      }
+      return keyInfo.key ?? key;
     } catch (error) {
       console.error('Failed to retrieve key:', error);
       return null;
@@ -415,26 +1221,134 @@ export class KeyManager {
   }
 
   /**
-   * Get all stored keys
+   * Every stored key, without unwrapping any of them
    */
-  private static getStoredKeys(): Record<string, any> {
-    const stored = localStorage.getItem(this.STORAGE_KEY);
-    return stored ? JSON.parse(stored) : {};
+  static async listKeys(): Promise<KeyringEntry[]> {
+    return keyring.list();
+  }
+
+  /**
+   * Change the label shown for a stored key
+   */
+  static async renameKey(fileHash: string, label: string): Promise<void> {
+    await keyring.rename(fileHash, label);
   }
 
   /**
    * Remove key from storage
    */
-  static removeKey(fileHash: string): void {
-    const stored = this.getStoredKeys();
-    delete stored[fileHash];
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+  static async removeKey(fileHash: string): Promise<void> {
+    await keyring.delete(fileHash);
   }
 
   /**
    * Clear all stored keys
    */
-  static clearAllKeys(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
+  static async clearAllKeys(): Promise<void> {
+    await keyring.clear();
+  }
+
+  /**
+   * Unwrap the key of an entry, throwing if the secret is wrong. The key
+   * bytes stay inside WebCrypto.
+   */
+  static async unwrapKey(
+    entry: KeyringEntry,
+    source: KeySource,
+    extractable = false
+  ): Promise<CryptoKey> {
+    // Convert from base64
+    const encryptedKey = EncryptionService.base64ToArrayBuffer(entry.encryptedKey);
+    const iv = new Uint8Array(EncryptionService.base64ToArrayBuffer(entry.iv));
+    const salt = new Uint8Array(EncryptionService.base64ToArrayBuffer(entry.salt));
+    // Entries without recorded parameters predate them and used LEGACY_KDF
+    const kdf = entry.kdf ? validateKdfParams(entry.kdf) : LEGACY_KDF;
+
+    // Derive the key that wrapped it
+    const storageKey = await EncryptionService.deriveKeyFromSource(source, salt, kdf, ['unwrapKey']);
+
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      encryptedKey,
+      storageKey,
+      { name: 'AES-GCM', iv },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Wrap an extractable key under a secret with a fresh salt, giving the
+   * fields an entry stores it in
+   */
+  static async wrapKey(key: CryptoKey, source: KeySource): Promise<WrappedKeyFields> {
+    return (await this.seal(key, source)).wrapped;
+  }
+
+  private static toKeySource(secret: string | KeySource): KeySource {
+    return typeof secret === 'string' ? { type: 'password', password: secret } : secret;
+  }
+
+  // Wrap a key under the secret and write it to the keyring, returning the
+  // device copy that was stored with it
+  private static async storeKeyEntry(
+    fileHash: string,
+    key: CryptoKey,
+    source: KeySource,
+    label?: string
+  ): Promise<CryptoKey> {
+    const { wrapped, deviceKey } = await this.seal(key, source);
+    const existing = await keyring.get(fileHash);
+    const now = Date.now();
+    await keyring.put({
+      id: fileHash,
+      label: label ?? existing?.label ?? fileHash,
+      // The wrapped copy is the exportable one: backups carry it to other
+      // devices and password changes re-wrap it. The device copy is what
+      // this browser decrypts with, and no script can read its bytes.
+      ...wrapped,
+      key: deviceKey,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+    return deviceKey;
+  }
+
+  // Wrap a key, and unwrap the result again as a non-extractable device copy
+  private static async seal(
+    key: CryptoKey,
+    source: KeySource
+  ): Promise<{ wrapped: WrappedKeyFields; deviceKey: CryptoKey }> {
+    const salt = EncryptionService.generateSalt();
+    // Signatures are already high entropy, so only passwords go through the KDF
+    const kdf = source.type === 'password' ? CURRENT_KDF : undefined;
+    
+    // Derive the wrapping key from the password or signature
+    const storageKey = await EncryptionService.deriveKeyFromSource(source, salt, kdf, ['wrapKey', 'unwrapKey']);
+    
+    // Wrap the file key
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encryptedKey = await crypto.subtle.wrapKey('raw', key, storageKey, { name: 'AES-GCM', iv });
+    const deviceKey = await crypto.subtle.unwrapKey(
+      'raw',
+      encryptedKey,
+      storageKey,
+      { name: 'AES-GCM', iv },
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+
+    return {
+      wrapped: {
+        source: source.type,
+        encryptedKey: EncryptionService.arrayBufferToBase64(encryptedKey),
+        iv: EncryptionService.arrayBufferToBase64(iv.buffer as ArrayBuffer),
+        salt: EncryptionService.arrayBufferToBase64(salt.buffer as ArrayBuffer),
+        kdf,
+      },
+      deviceKey,
+    };
   }
 }
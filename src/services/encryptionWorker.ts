@@ -0,0 +1,140 @@
+import { EncryptionService, ChunkedFileMetadata, ChunkingStrategy } from '@/services/encryption';
+
+// Main-thread side of src/workers/encryption.worker.ts. Key derivation,
+// compression, encryption and hashing run in the worker; chunks come back
+// one per request so a slow upload holds back encryption instead of
+// piling ciphertext up in memory.
+
+export type PreparedFileStream = Awaited<ReturnType<typeof EncryptionService.prepareFileStreamForStorage>>;
+
+export type EncryptionPhase = 'deriving-key' | 'encrypting' | 'finalizing';
+
+export interface EncryptionProgress {
+  phase: EncryptionPhase;
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+export interface WorkerPrepareOptions {
+  chunking?: ChunkingStrategy;
+  convergenceKey?: CryptoKey;
+  onProgress?: (progress: EncryptionProgress) => void;
+  signal?: AbortSignal; // Aborting terminates the worker, or stops the main-thread fallback at the next chunk
+}
+
+// Messages sent to the worker
+export type EncryptionWorkerRequest =
+  | {
+      type: 'start';
+      file: File;
+      password?: string;
+      chunking?: ChunkingStrategy;
+      convergenceKey?: CryptoKey;
+    }
+  | { type: 'pull' };
+
+// Messages the worker sends back. Every request gets exactly one reply
+// other than 'progress', which may arrive at any time.
+export type EncryptionWorkerResponse =
+  | { type: 'ready'; key: CryptoKey }
+  | { type: 'progress'; progress: EncryptionProgress }
+  | { type: 'chunk'; chunk: ArrayBuffer }
+  | { type: 'end'; metadata: ChunkedFileMetadata }
+  | { type: 'error'; message: string };
+
+/**
+ * Same contract as EncryptionService.prepareFileStreamForStorage, but the
+ * work happens in a Web Worker. Falls back to the main thread where
+ * workers are unavailable.
+ */
+export async function prepareFileInWorker(
+  file: File,
+  password?: string,
+  options: WorkerPrepareOptions = {}
+): Promise<PreparedFileStream> {
+  const { onProgress, signal, chunking, convergenceKey } = options;
+  signal?.throwIfAborted();
+
+  if (typeof Worker === 'undefined') {
+    return EncryptionService.prepareFileStreamForStorage(file, password, {
+      chunking,
+      convergenceKey,
+      onProgress: bytesProcessed => onProgress?.({ phase: 'encrypting', bytesProcessed, totalBytes: file.size }),
+      signal,
+    });
+  }
+
+  const worker = new Worker(new URL('../workers/encryption.worker.ts', import.meta.url));
+  let waiting: { resolve: (response: EncryptionWorkerResponse) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const close = () => {
+    signal?.removeEventListener('abort', abort);
+    worker.terminate();
+  };
+  const fail = (error: Error) => {
+    failure = error;
+    close();
+    waiting?.reject(error);
+    waiting = null;
+  };
+  const abort = () => fail(new DOMException('Upload cancelled', 'AbortError'));
+  signal?.addEventListener('abort', abort, { once: true });
+
+  worker.onmessage = (event: MessageEvent<EncryptionWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress?.(message.progress);
+    } else if (message.type === 'error') {
+      fail(new Error(message.message));
+    } else {
+      waiting?.resolve(message);
+      waiting = null;
+    }
+  };
+  worker.onerror = event => fail(new Error(event.message || 'Encryption worker failed'));
+
+  const request = (message: EncryptionWorkerRequest) =>
+    new Promise<EncryptionWorkerResponse>((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      waiting = { resolve, reject };
+      worker.postMessage(message);
+    });
+
+  const ready = await request({ type: 'start', file, password, chunking, convergenceKey });
+  if (ready.type !== 'ready') {
+    close();
+    throw new Error(`Unexpected ${ready.type} reply from encryption worker`);
+  }
+
+  let metadata: ChunkedFileMetadata | null = null;
+  async function* chunks(): AsyncGenerator<ArrayBuffer> {
+    try {
+      for (;;) {
+        const response = await request({ type: 'pull' });
+        if (response.type === 'end') {
+          metadata = response.metadata;
+          return;
+        }
+        if (response.type !== 'chunk') {
+          throw new Error(`Unexpected ${response.type} reply from encryption worker`);
+        }
+        yield response.chunk;
+      }
+    } finally {
+      close();
+    }
+  }
+
+  const finalize = async (): Promise<ChunkedFileMetadata> => {
+    if (!metadata) {
+      throw new Error('Cannot finalize metadata before all chunks are consumed');
+    }
+    return metadata;
+  };
+
+  return { chunks: chunks(), finalize, key: ready.key };
+}
@@ -0,0 +1,135 @@
+import { gfInverse, gfInvertMatrix, gfMulAdd } from '@/services/gf256';
+
+// Systematic Reed–Solomon over stripes of encrypted chunks. Every
+// `dataShards` consecutive chunks form a stripe with `parityShards` extra
+// chunks, and any `dataShards` chunks of a stripe rebuild the rest. Data
+// chunks are stored unchanged, so a file's CIDs and Merkle root do not
+// depend on its redundancy settings.
+
+export interface ErasureParams {
+  dataShards: number;
+  parityShards: number;
+}
+
+// Recorded in the manifest body of erasure-coded uploads
+export interface ErasureLayout extends ErasureParams {
+  // Stripe-major: parity j of stripe s is at s * parityShards + j
+  parityHashes: string[];
+}
+
+// Cauchy coefficients need distinct field elements for every shard
+const MAX_SHARDS = 256;
+
+// Used for new uploads; set per deployment through the environment. Bad
+// values fall back to these defaults with a warning rather than failing
+// every import of this module.
+export const DEFAULT_ERASURE: ErasureParams = readErasureParams({
+  dataShards: Number(process.env.NEXT_PUBLIC_ERASURE_DATA_SHARDS ?? 4),
+  parityShards: Number(process.env.NEXT_PUBLIC_ERASURE_PARITY_SHARDS ?? 2),
+}, { dataShards: 4, parityShards: 2 });
+
+/**
+ * Check shard counts, returning a clean copy
+ */
+export function validateErasureParams(params: ErasureParams): ErasureParams {
+  const { dataShards, parityShards } = params;
+  if (!Number.isSafeInteger(dataShards) || dataShards < 1) {
+    throw new Error('Erasure coding needs at least one data shard');
+  }
+  if (!Number.isSafeInteger(parityShards) || parityShards < 0) {
+    throw new Error('Parity shard count must be a non-negative integer');
+  }
+  if (dataShards + parityShards > MAX_SHARDS) {
+    throw new Error(`At most ${MAX_SHARDS} shards per stripe are supported`);
+  }
+  return { dataShards, parityShards };
+}
+
+export function stripeCount(chunkCount: number, dataShards: number): number {
+  return Math.ceil(chunkCount / dataShards);
+}
+
+/**
+ * Parity shards for one stripe. A final stripe may hold fewer than
+ * `dataShards` chunks; the missing ones count as empty. Shorter chunks
+ * are zero-padded to the longest, which is also the parity length.
+ */
+export function encodeParity(data: Uint8Array[], params: ErasureParams): Uint8Array<ArrayBuffer>[] {
+  const { dataShards, parityShards } = params;
+  if (data.length === 0 || data.length > dataShards) {
+    throw new Error(`A stripe holds 1 to ${dataShards} data shards, got ${data.length}`);
+  }
+
+  const size = Math.max(...data.map(shard => shard.length));
+  return Array.from({ length: parityShards }, (_, i) => {
+    const parity = new Uint8Array(size);
+    data.forEach((shard, j) => gfMulAdd(parity, shard, parityCoefficient(i, j, dataShards)));
+    return parity;
+  });
+}
+
+/**
+ * Rebuild the data shards of one stripe from whichever shards survived.
+ * `data` and `parity` hold null where a shard could not be fetched;
+ * `dataLengths` are the true lengths of the stripe's data shards.
+ */
+export function reconstructStripe(
+  data: (Uint8Array | null)[],
+  parity: (Uint8Array | null)[],
+  dataLengths: number[],
+  params: ErasureParams
+): Uint8Array[] {
+  const { dataShards, parityShards } = params;
+  if (data.every(shard => shard !== null)) {
+    return data as Uint8Array[];
+  }
+
+  const size = Math.max(...dataLengths);
+  const rows: { coefficients: Uint8Array; shard: Uint8Array }[] = [];
+  for (let j = 0; j < dataShards; j++) {
+    // Shards past the end of a short final stripe are known to be empty
+    const shard = j < data.length ? data[j] : new Uint8Array(0);
+    if (shard) {
+      rows.push({ coefficients: unitRow(j, dataShards), shard });
+    }
+  }
+  for (let i = 0; i < parityShards && rows.length < dataShards; i++) {
+    const shard = parity[i];
+    if (shard && shard.length === size) {
+      const coefficients = new Uint8Array(dataShards).map((_, j) => parityCoefficient(i, j, dataShards));
+      rows.push({ coefficients, shard });
+    }
+  }
+  if (rows.length < dataShards) {
+    throw new Error(`Only ${rows.length} of the ${dataShards} shards needed to rebuild this stripe are available`);
+  }
+
+  const decode = gfInvertMatrix(rows.map(row => row.coefficients));
+  return data.map((shard, j) => {
+    if (shard) return shard;
+    const rebuilt = new Uint8Array(size);
+    rows.forEach((row, r) => gfMulAdd(rebuilt, row.shard, decode[j][r]));
+    return rebuilt.slice(0, dataLengths[j]);
+  });
+}
+
+// Cauchy matrix entry 1 / (x_i + y_j) with x_i = dataShards + i and y_j = j;
+// every square submatrix of [I; C] is invertible
+function parityCoefficient(parityIndex: number, dataIndex: number, dataShards: number): number {
+  return gfInverse((dataShards + parityIndex) ^ dataIndex);
+}
+
+function unitRow(index: number, size: number): Uint8Array {
+  const row = new Uint8Array(size);
+  row[index] = 1;
+  return row;
+}
+
+function readErasureParams(params: ErasureParams, fallback: ErasureParams): ErasureParams {
+  try {
+    return validateErasureParams(params);
+  } catch (error) {
+    console.warn(`Ignoring NEXT_PUBLIC_ERASURE_* settings: ${(error as Error).message}`);
+    return fallback;
+  }
+}
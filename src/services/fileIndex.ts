@@ -0,0 +1,61 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+// The manifest CIDs of each user's files, so a new device can find them.
+// Only CIDs are kept: names and sizes stay inside the sealed manifests.
+
+const COLLECTION = 'files';
+
+function entryId(ownerUid: string, manifestCid: string): string {
+  return `${ownerUid}_${manifestCid}`;
+}
+
+class FileIndexService {
+  // Record an uploaded file under its owner
+  async addFile(ownerUid: string, manifestCid: string): Promise<void> {
+    try {
+      await setDoc(doc(db, COLLECTION, entryId(ownerUid, manifestCid)), {
+        ownerUid,
+        manifestCid,
+        createdAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error indexing file:', error);
+      throw error;
+    }
+  }
+
+  // Manifest CIDs of every file the user has uploaded and not deleted
+  async listFiles(ownerUid: string): Promise<string[]> {
+    try {
+      const q = query(collection(db, COLLECTION), where('ownerUid', '==', ownerUid));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(entry => entry.data().manifestCid as string);
+    } catch (error) {
+      console.error('Error listing indexed files:', error);
+      throw error;
+    }
+  }
+
+  async removeFile(ownerUid: string, manifestCid: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, COLLECTION, entryId(ownerUid, manifestCid)));
+    } catch (error) {
+      console.error('Error removing file from the index:', error);
+      throw error;
+    }
+  }
+}
+
+// Create singleton instance
+export const fileIndexService = new FileIndexService();
+export default fileIndexService;
@@ -0,0 +1,59 @@
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import type { WrappedFileKey } from '@/services/vault';
+
+// The per-file wrapping key of each vault upload, wrapped by the owner's
+// vault. Manifests on IPFS cannot be deleted, so the file key they carry is
+// wrapped under this record's key instead of the vault's, and deleting the
+// record is what shreds the file.
+
+const COLLECTION = 'fileKeys';
+
+function recordId(ownerUid: string, manifestCid: string): string {
+  return `${ownerUid}_${manifestCid}`;
+}
+
+class FileKeyService {
+  // Keep the wrapping key of a newly uploaded file
+  async saveFileKey(ownerUid: string, manifestCid: string, recordKey: WrappedFileKey): Promise<void> {
+    try {
+      await setDoc(doc(db, COLLECTION, recordId(ownerUid, manifestCid)), {
+        ownerUid,
+        manifestCid,
+        recordKey,
+        createdAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error saving file key:', error);
+      throw error;
+    }
+  }
+
+  // The wrapping key of a file, or null once it was deleted
+  async getFileKey(ownerUid: string, manifestCid: string): Promise<WrappedFileKey | null> {
+    try {
+      const snapshot = await getDoc(doc(db, COLLECTION, recordId(ownerUid, manifestCid)));
+      return snapshot.exists() ? snapshot.data().recordKey as WrappedFileKey : null;
+    } catch (error) {
+      console.error('Error loading file key:', error);
+      throw error;
+    }
+  }
+
+  // Destroy the wrapping key of a file, returning whether there was one
+  async deleteFileKey(ownerUid: string, manifestCid: string): Promise<boolean> {
+    try {
+      const ref = doc(db, COLLECTION, recordId(ownerUid, manifestCid));
+      const existed = (await getDoc(ref)).exists();
+      await deleteDoc(ref);
+      return existed;
+    } catch (error) {
+      console.error('Error deleting file key:', error);
+      throw error;
+    }
+  }
+}
+
+// Create singleton instance
+export const fileKeyService = new FileKeyService();
+export default fileKeyService;
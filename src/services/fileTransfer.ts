@@ -0,0 +1,362 @@
+import { uploadToIPFS, downloadFromIPFS, hasBlock, pinInIPFS } from '@/services/ipfs';
+import { EncryptionService } from '@/services/encryption';
+import { encodeParity, reconstructStripe, stripeCount, ErasureLayout, ErasureParams } from '@/services/erasure';
+import type { ManifestBody } from '@/services/manifest';
+import { TransferScheduler } from '@/services/transferScheduler';
+
+// Chunk transfer helpers shared by the dashboards. Chunks move through a
+// TransferScheduler, several at a time and with retries; callers pass their
+// own to follow progress or cancel.
+
+// How long to wait for a chunk before rebuilding it from parity instead
+const CHUNK_TIMEOUT_MS = 30_000;
+
+// SHA-256 of each stored chunk mapped to its CID, so chunks that come out
+// identical on a later upload are not stored again
+const CHUNK_INDEX_KEY = 'web3-dropbox-chunk-index';
+
+/**
+ * Wrap raw bytes as a named File for IPFS upload
+ */
+export function toUploadFile(data: ArrayBuffer | Uint8Array<ArrayBuffer> | string, name: string): File {
+  const blob = new Blob([data]);
+  return Object.assign(blob, {
+    name,
+    lastModified: Date.now(),
+  }) as File;
+}
+
+interface UploadJob {
+  kind: 'chunk' | 'parity';
+  position: number;
+  data: ArrayBuffer;
+}
+
+/**
+ * Upload chunks as they are produced, adding parity chunks after each
+ * stripe so any `dataShards` chunks of a stripe can rebuild it. Chunks
+ * already stored by an earlier upload are reused instead of uploaded.
+ */
+export async function uploadErasureCodedStream(
+  chunks: AsyncIterable<ArrayBuffer>,
+  params: ErasureParams,
+  options: {
+    scheduler?: TransferScheduler;
+    onChunkUploaded?: (index: number, cid: string) => void;
+  } = {}
+): Promise<{ chunkHashes: string[]; erasure: ErasureLayout; reusedChunks: number }> {
+  const { scheduler = new TransferScheduler(), onChunkUploaded } = options;
+  const chunkHashes: string[] = [];
+  const parityHashes: string[] = [];
+  const index = loadChunkIndex();
+  let reusedChunks = 0;
+
+  const stored = scheduler.map(uploadJobs(chunks, params), async job => ({
+    job,
+    ...await storeChunk(job.data, `${job.kind}_${job.position}`, index, scheduler),
+  }));
+  for await (const { job, cid, reused } of stored) {
+    if (job.kind === 'parity') {
+      parityHashes.push(cid);
+      continue;
+    }
+    chunkHashes.push(cid);
+    if (reused) reusedChunks++;
+    onChunkUploaded?.(job.position, cid);
+  }
+
+  saveChunkIndex(index);
+  return { chunkHashes, erasure: { ...params, parityHashes }, reusedChunks };
+}
+
+// Every chunk followed, after each stripe, by that stripe's parity
+async function* uploadJobs(chunks: AsyncIterable<ArrayBuffer>, params: ErasureParams): AsyncGenerator<UploadJob> {
+  let stripe: Uint8Array[] = [];
+  let chunkCount = 0;
+  let parityCount = 0;
+
+  function* parity(): Generator<UploadJob> {
+    for (const shard of encodeParity(stripe, params)) {
+      yield { kind: 'parity', position: parityCount++, data: shard.buffer };
+    }
+    stripe = [];
+  }
+
+  for await (const chunk of chunks) {
+    yield { kind: 'chunk', position: chunkCount++, data: chunk };
+    stripe.push(new Uint8Array(chunk));
+    if (stripe.length === params.dataShards) {
+      yield* parity();
+    }
+  }
+  if (stripe.length > 0) {
+    yield* parity();
+  }
+}
+
+// Reuse the CID of an identical chunk if this node still holds all of it
+async function storeChunk(
+  chunk: ArrayBuffer,
+  name: string,
+  index: Record<string, string>,
+  scheduler: TransferScheduler
+): Promise<{ cid: string; reused: boolean }> {
+  const digest = await EncryptionService.generateHash(chunk);
+  const known = index[digest];
+  if (known && await hasBlock(known)) {
+    // Eviction can keep a chunk's root while dropping its leaves. Pinning
+    // walks the whole DAG, fetching missing blocks, and keeps it from then on.
+    try {
+      await pinInIPFS(known, { signal: AbortSignal.any([scheduler.signal, AbortSignal.timeout(CHUNK_TIMEOUT_MS)]) });
+      return { cid: known, reused: true };
+    } catch (error) {
+      scheduler.signal.throwIfAborted();
+      console.warn(`Uploading chunk again, ${known} is incomplete:`, error);
+      delete index[digest];
+    }
+  }
+
+  const cid = await scheduler.run(
+    signal => uploadToIPFS(toUploadFile(chunk, name), { signal }),
+    { bytes: () => chunk.byteLength }
+  );
+  index[digest] = cid;
+  return { cid, reused: false };
+}
+
+function loadChunkIndex(): Record<string, string> {
+  const stored = localStorage.getItem(CHUNK_INDEX_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+function saveChunkIndex(index: Record<string, string>): void {
+  localStorage.setItem(CHUNK_INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * Download a single chunk as a standalone ArrayBuffer
+ */
+export async function downloadChunk(cid: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const data = await downloadFromIPFS(cid, { signal });
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Fetch chunks lazily, a few ahead of the consumer, yielding them in order
+ */
+export async function* downloadChunks(
+  cids: string[],
+  scheduler: TransferScheduler = new TransferScheduler()
+): AsyncGenerator<ArrayBuffer> {
+  scheduler.expect(cids.length);
+  yield* scheduler.map(cids, cid => scheduler.run(
+    signal => downloadChunk(cid, signal),
+    { bytes: chunk => chunk.byteLength }
+  ));
+}
+
+/**
+ * Fetch chunks in order, rebuilding any that cannot be fetched from the
+ * rest of their stripe. Each stripe's chunks are fetched together, and
+ * later stripes are fetched while earlier ones are consumed.
+ */
+export async function* downloadChunksWithRecovery(
+  chunkHashes: string[],
+  erasure: ErasureLayout,
+  chunkLength: (index: number) => number,
+  scheduler: TransferScheduler = new TransferScheduler()
+): AsyncGenerator<ArrayBuffer> {
+  scheduler.expect(chunkHashes.length);
+  const stripes = Array.from(
+    { length: stripeCount(chunkHashes.length, erasure.dataShards) },
+    (_, stripe) => stripe
+  );
+  const fetched = scheduler.map(stripes, stripe => downloadStripe(chunkHashes, erasure, chunkLength, stripe, scheduler));
+  for await (const stripe of fetched) {
+    for (const chunk of stripe) {
+      yield chunk.buffer as ArrayBuffer;
+    }
+  }
+}
+
+// Fetch one stripe's chunks, rebuilding missing ones from its parity
+async function downloadStripe(
+  chunkHashes: string[],
+  erasure: ErasureLayout,
+  chunkLength: (index: number) => number,
+  stripe: number,
+  scheduler: TransferScheduler
+): Promise<Uint8Array[]> {
+  const { dataShards, parityShards } = erasure;
+  const start = stripe * dataShards;
+  const stripeHashes = chunkHashes.slice(start, start + dataShards);
+  const data = await Promise.all(stripeHashes.map(cid => tryDownloadChunk(cid, scheduler)));
+
+  const parity: (Uint8Array | null)[] = new Array(parityShards).fill(null);
+  let available = data.filter(Boolean).length + (dataShards - stripeHashes.length);
+  // Only fetch as much parity as the missing chunks call for
+  for (let i = 0; i < parityShards && available < dataShards; i++) {
+    const shard = await tryDownloadChunk(erasure.parityHashes[stripe * parityShards + i], scheduler);
+    if (shard) {
+      parity[i] = new Uint8Array(shard);
+      available++;
+    }
+  }
+
+  return reconstructStripe(
+    data.map(chunk => chunk && new Uint8Array(chunk)),
+    parity,
+    stripeHashes.map((_, j) => chunkLength(start + j)),
+    erasure
+  );
+}
+
+/**
+ * Fetch the encrypted chunks named by a sealed manifest body, falling
+ * back to parity when the upload was erasure coded
+ */
+export function downloadFileChunks(
+  body: ManifestBody,
+  scheduler: TransferScheduler = new TransferScheduler()
+): AsyncGenerator<ArrayBuffer> {
+  if (!body.erasure) {
+    return downloadChunks(body.chunkHashes, scheduler);
+  }
+  return downloadChunksWithRecovery(
+    body.chunkHashes,
+    body.erasure,
+    index => EncryptionService.encryptedChunkLength(body, index),
+    scheduler
+  );
+}
+
+/**
+ * Plaintext bytes [start, end) of a sealed file, fetching and decrypting
+ * only the chunks that cover them. A compressed payload cannot be entered
+ * midway, so compressed files are decrypted from the start up to `end`.
+ */
+export async function readFileRange(
+  body: ManifestBody,
+  key: CryptoKey,
+  start: number,
+  end: number = body.fileSize
+): Promise<Uint8Array<ArrayBuffer>> {
+  start = Math.max(0, start);
+  end = Math.min(end, body.fileSize);
+  if (start >= end) {
+    return new Uint8Array(0);
+  }
+  const scheduler = new TransferScheduler();
+  if (body.compression) {
+    return readStreamPrefix(
+      EncryptionService.reconstructFileStream(downloadFileChunks(body, scheduler), body, key),
+      start,
+      end
+    );
+  }
+
+  const offsets = EncryptionService.chunkOffsets(body);
+  const first = offsets.findIndex((offset, i) => offset <= start && start < offsets[i + 1]);
+  const last = offsets.findIndex((offset, i) => offset < end && end <= offsets[i + 1]);
+
+  const indices = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+  const plaintexts = await Promise.all(indices.map(async index =>
+    EncryptionService.decryptChunk(body, key, index, await fetchChunk(body, index, scheduler))
+  ));
+
+  const result = new Uint8Array(end - start);
+  plaintexts.forEach((plaintext, i) => {
+    const chunkStart = offsets[first + i];
+    const from = Math.max(start - chunkStart, 0);
+    const to = Math.min(end - chunkStart, plaintext.byteLength);
+    result.set(new Uint8Array(plaintext, from, to - from), chunkStart + from - start);
+  });
+  return result;
+}
+
+// One chunk of a file, rebuilt from its stripe if it cannot be fetched
+async function fetchChunk(body: ManifestBody, index: number, scheduler: TransferScheduler): Promise<ArrayBuffer> {
+  if (!body.erasure) {
+    return scheduler.run(signal => downloadChunk(body.chunkHashes[index], signal));
+  }
+
+  const chunk = await tryDownloadChunk(body.chunkHashes[index], scheduler);
+  if (chunk) return chunk;
+
+  const { dataShards } = body.erasure;
+  const stripe = await downloadStripe(
+    body.chunkHashes,
+    body.erasure,
+    i => EncryptionService.encryptedChunkLength(body, i),
+    Math.floor(index / dataShards),
+    scheduler
+  );
+  const rebuilt = stripe[index % dataShards];
+  return rebuilt.buffer.slice(rebuilt.byteOffset, rebuilt.byteOffset + rebuilt.byteLength) as ArrayBuffer;
+}
+
+// Read a stream up to `end`, then stop fetching
+async function readStreamPrefix(
+  stream: ReadableStream<Uint8Array>,
+  start: number,
+  end: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const result = new Uint8Array(end - start);
+  const reader = stream.getReader();
+  let position = 0;
+  try {
+    while (position < end) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const from = Math.max(start - position, 0);
+      const to = Math.min(end - position, value.byteLength);
+      if (from < to) {
+        result.set(value.subarray(from, to), position + from - start);
+      }
+      position += value.byteLength;
+    }
+  } finally {
+    await reader.cancel();
+  }
+  return result;
+}
+
+// A chunk that times out is not retried: its stripe's parity is the faster way back
+async function tryDownloadChunk(cid: string, scheduler: TransferScheduler): Promise<ArrayBuffer | null> {
+  let timeout = AbortSignal.timeout(CHUNK_TIMEOUT_MS);
+  try {
+    return await scheduler.run(signal => {
+      timeout = AbortSignal.timeout(CHUNK_TIMEOUT_MS);
+      return downloadChunk(cid, AbortSignal.any([signal, timeout]));
+    }, {
+      bytes: chunk => chunk.byteLength,
+      retryable: () => !timeout.aborted,
+    });
+  } catch (error) {
+    if (scheduler.signal.aborted) throw error;
+    console.warn(`Chunk ${cid} is unavailable:`, error);
+    return null;
+  }
+}
+
+/**
+ * Hand a decrypted stream to the browser as a file download
+ */
+export async function saveStreamAsFile(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  mimeType: string
+): Promise<void> {
+  // Response lets the browser back large blobs with disk instead of one ArrayBuffer
+  const blob = await new Response(stream).blob();
+  const file = new File([blob], fileName, { type: mimeType });
+
+  const url = URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = file.name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
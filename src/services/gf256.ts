@@ -0,0 +1,86 @@
+// Arithmetic in GF(2^8) over the 0x11d polynomial, the field most
+// Reed–Solomon codes use. Addition is XOR; multiplication goes through
+// log/exp tables, with a full product table for bulk row operations.
+
+const PRIMITIVE_POLYNOMIAL = 0x11d;
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+const PRODUCTS = new Uint8Array(256 * 256);
+
+let x = 1;
+for (let i = 0; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) x ^= PRIMITIVE_POLYNOMIAL;
+}
+// Doubled so gfMul can skip the modulo
+for (let i = 255; i < 512; i++) {
+  EXP[i] = EXP[i - 255];
+}
+for (let a = 1; a < 256; a++) {
+  for (let b = 1; b < 256; b++) {
+    PRODUCTS[(a << 8) | b] = EXP[LOG[a] + LOG[b]];
+  }
+}
+
+export function gfMul(a: number, b: number): number {
+  return PRODUCTS[(a << 8) | b];
+}
+
+export function gfInverse(a: number): number {
+  if (a === 0) {
+    throw new RangeError('Zero has no inverse in GF(256)');
+  }
+  return EXP[255 - LOG[a]];
+}
+
+/**
+ * target ^= coefficient * source, byte by byte
+ */
+export function gfMulAdd(target: Uint8Array, source: Uint8Array, coefficient: number): void {
+  if (coefficient === 0) return;
+  const row = PRODUCTS.subarray(coefficient << 8, (coefficient + 1) << 8);
+  const length = Math.min(target.length, source.length);
+  for (let i = 0; i < length; i++) {
+    target[i] ^= row[source[i]];
+  }
+}
+
+/**
+ * Invert a square matrix by Gauss–Jordan elimination
+ */
+export function gfInvertMatrix(matrix: Uint8Array[]): Uint8Array[] {
+  const size = matrix.length;
+  const work = matrix.map(row => Uint8Array.from(row));
+  const inverse = Array.from({ length: size }, (_, i) => {
+    const row = new Uint8Array(size);
+    row[i] = 1;
+    return row;
+  });
+
+  for (let column = 0; column < size; column++) {
+    const pivot = work.findIndex((row, r) => r >= column && row[column] !== 0);
+    if (pivot === -1) {
+      throw new Error('Matrix is singular');
+    }
+    [work[column], work[pivot]] = [work[pivot], work[column]];
+    [inverse[column], inverse[pivot]] = [inverse[pivot], inverse[column]];
+
+    const scale = gfInverse(work[column][column]);
+    for (let c = 0; c < size; c++) {
+      work[column][c] = gfMul(work[column][c], scale);
+      inverse[column][c] = gfMul(inverse[column][c], scale);
+    }
+
+    for (let r = 0; r < size; r++) {
+      const factor = work[r][column];
+      if (r === column || factor === 0) continue;
+      gfMulAdd(work[r], work[column], factor);
+      gfMulAdd(inverse[r], inverse[column], factor);
+    }
+  }
+
+  return inverse;
+}
@@ -0,0 +1,115 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { EncryptionService } from '@/services/encryption';
+import type { ShareRecipient } from '@/services/sharing';
+import { SecretShare, encodeShare } from '@/services/shamir';
+
+// One share of someone's master key, sealed to a guardian's sharing key
+export interface GuardianShare {
+  id: string;
+  ownerUid: string;
+  ownerName: string;
+  guardianUid: string;
+  setId: string;
+  threshold: number;
+  index: number;
+  ephemeralPublicKey: string;
+  ciphertext: string;
+  createdAt: Timestamp;
+}
+
+const COLLECTION = 'recoveryShares';
+
+class GuardianService {
+  // Seal each share to its guardian and store them all, or none
+  async distributeShares(
+    owner: { uid: string; displayName: string },
+    assignments: { guardian: ShareRecipient; share: SecretShare }[]
+  ): Promise<void> {
+    try {
+      if (assignments.some(({ guardian }) => guardian.uid === owner.uid)) {
+        throw new Error('You cannot be your own guardian');
+      }
+
+      const batch = writeBatch(db);
+      for (const { guardian, share } of assignments) {
+        // The printable form carries its own checksum, so a released share can be checked when typed in
+        const sealed = await EncryptionService.sealForRecipient(
+          new TextEncoder().encode(await encodeShare(share)),
+          guardian.publicKey
+        );
+        batch.set(doc(collection(db, COLLECTION)), {
+          ownerUid: owner.uid,
+          ownerName: owner.displayName,
+          guardianUid: guardian.uid,
+          setId: share.setId,
+          threshold: share.threshold,
+          index: share.index,
+          ephemeralPublicKey: sealed.ephemeralPublicKey,
+          ciphertext: sealed.ciphertext,
+          createdAt: serverTimestamp()
+        });
+      }
+      await batch.commit();
+    } catch (error) {
+      console.error('Error distributing recovery shares:', error);
+      throw error;
+    }
+  }
+
+  // Remove the shares of every earlier set once a new one replaces them
+  async revokeSharesExcept(ownerUid: string, setId: string): Promise<void> {
+    try {
+      const q = query(collection(db, COLLECTION), where('ownerUid', '==', ownerUid));
+      const querySnapshot = await getDocs(q);
+      const batch = writeBatch(db);
+      querySnapshot.docs
+        .filter(share => share.data().setId !== setId)
+        .forEach(share => batch.delete(share.ref));
+      await batch.commit();
+    } catch (error) {
+      console.error('Error revoking recovery shares:', error);
+      throw error;
+    }
+  }
+
+  // Shares this user holds for other people
+  async listHeldShares(guardianUid: string): Promise<GuardianShare[]> {
+    try {
+      const q = query(collection(db, COLLECTION), where('guardianUid', '==', guardianUid));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(share => ({ id: share.id, ...share.data() }) as GuardianShare);
+    } catch (error) {
+      console.error('Error listing guardian shares:', error);
+      throw error;
+    }
+  }
+
+  // Decrypt a held share into the printable form its owner types back in
+  async openShare(share: GuardianShare, privateKey: CryptoKey, publicKey: string): Promise<string> {
+    try {
+      const plaintext = await EncryptionService.openFromSender(
+        { ephemeralPublicKey: share.ephemeralPublicKey, ciphertext: share.ciphertext },
+        privateKey,
+        publicKey
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      console.error('Error opening guardian share:', error);
+      throw new Error('This recovery share could not be opened with your vault');
+    }
+  }
+}
+
+// Create singleton instance
+export const guardianService = new GuardianService();
+export default guardianService;
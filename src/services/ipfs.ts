@@ -1,57 +1,50 @@
-import { createHelia } from 'helia';
-import { unixfs } from '@helia/unixfs';
-import { CID } from 'multiformats/cid';
+import { getStorageBackend } from '@/services/storage/backend';
 
-let heliaInstance: any = null;
+// Storage entry points used across the app, backed by whichever
+// StorageBackend this deployment is configured for
 
-export async function getHelia() {
-  if (!heliaInstance) {
-    heliaInstance = await createHelia();
-  }
-  return heliaInstance;
-}
-
-export async function uploadToIPFS(file: File): Promise<string> {
+export async function uploadToIPFS(
+  file: File,
+  options: { signal?: AbortSignal } = {}
+): Promise<string> {
   try {
-    const helia = await getHelia();
-    const fs = unixfs(helia);
-    
-    const fileBuffer = await file.arrayBuffer();
-    const uint8Array = new Uint8Array(fileBuffer);
-    
-    const cid = await fs.addFile({
-      path: file.name,
-      content: uint8Array,
-    });
-    
-    return cid.toString();
+    const backend = await getStorageBackend();
+    return await backend.put(new Uint8Array(await file.arrayBuffer()), { name: file.name, signal: options.signal });
   } catch (error) {
     console.error('Error uploading to IPFS:', error);
     throw error;
   }
 }
 
-export async function downloadFromIPFS(cid: string): Promise<Uint8Array> {
+// Whether the backend already holds the root block of a CID
+export async function hasBlock(cid: string): Promise<boolean> {
+  const backend = await getStorageBackend();
+  return backend.has(cid);
+}
+
+// Pin a DAG, fetching any of its blocks the backend no longer holds
+export async function pinInIPFS(
+  cid: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<void> {
+  const backend = await getStorageBackend();
+  await backend.pin(cid, options);
+}
+
+// Unpin a DAG and delete every block of it the backend holds, returning how
+// many blocks were removed. Copies other nodes fetched are out of reach.
+export async function removeFromIPFS(cid: string): Promise<number> {
+  const backend = await getStorageBackend();
+  return backend.remove(cid);
+}
+
+export async function downloadFromIPFS(
+  cid: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<Uint8Array> {
   try {
-    const helia = await getHelia();
-    const fs = unixfs(helia);
-    
-    // For now, we'll use a simple approach
-    const chunks: Uint8Array[] = [];
-    for await (const chunk of fs.cat(cid as any)) {
-      chunks.push(chunk);
-    }
-    
-    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    return result;
+    const backend = await getStorageBackend();
+    return await backend.get(cid, options);
   } catch (error) {
     console.error('Error downloading from IPFS:', error);
     throw error;
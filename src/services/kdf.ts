@@ -0,0 +1,231 @@
+// Password key derivation with the algorithm and cost recorded beside every salt
+
+export interface Pbkdf2Params {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+}
+
+// Memory-hard; costs 128 * r * N bytes of memory per derivation
+export interface ScryptParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+}
+
+export type KdfParams = Pbkdf2Params | ScryptParams;
+
+// Parameters for every new derivation; entries using anything else are
+// re-derived with these the next time they are unlocked
+export const CURRENT_KDF: KdfParams = { name: 'scrypt', N: 2 ** 16, r: 8, p: 1 };
+
+// What every key derived before parameters were recorded used
+export const LEGACY_KDF: KdfParams = { name: 'PBKDF2', hash: 'SHA-256', iterations: 100000 };
+
+// Upper bounds keep a hostile manifest from stalling the browser
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+const MAX_SCRYPT_PARALLELISM = 16;
+
+/**
+ * Whether parameters match the ones new keys are derived with
+ */
+export function isCurrentKdf(params: KdfParams): boolean {
+  if (params.name === 'PBKDF2') {
+    return CURRENT_KDF.name === 'PBKDF2' && params.iterations === CURRENT_KDF.iterations;
+  }
+  return CURRENT_KDF.name === 'scrypt' &&
+    params.N === CURRENT_KDF.N && params.r === CURRENT_KDF.r && params.p === CURRENT_KDF.p;
+}
+
+/**
+ * Check untrusted parameters, returning a clean copy
+ */
+export function validateKdfParams(value: unknown): KdfParams {
+  const params = (value ?? {}) as Record<string, unknown>;
+  const isCount = (n: unknown): n is number => Number.isSafeInteger(n) && (n as number) > 0;
+
+  if (params.name === 'PBKDF2') {
+    if (params.hash !== 'SHA-256') {
+      throw new Error(`Unsupported PBKDF2 hash: ${String(params.hash)}`);
+    }
+    if (!isCount(params.iterations) || params.iterations > MAX_PBKDF2_ITERATIONS) {
+      throw new Error('PBKDF2 iteration count is out of range');
+    }
+    return { name: 'PBKDF2', hash: 'SHA-256', iterations: params.iterations };
+  }
+
+  if (params.name === 'scrypt') {
+    const { N, r, p } = params;
+    if (!isCount(N) || N < 2 || (N & (N - 1)) !== 0) {
+      throw new Error('scrypt N must be a power of two');
+    }
+    if (!isCount(r) || !isCount(p) || p > MAX_SCRYPT_PARALLELISM || 128 * r * N > MAX_SCRYPT_MEMORY) {
+      throw new Error('scrypt cost is out of range');
+    }
+    return { name: 'scrypt', N, r, p };
+  }
+
+  throw new Error(`Unsupported key derivation function: ${String(params.name)}`);
+}
+
+/**
+ * Stretch a password into key material with the given parameters
+ */
+export async function deriveKdfBits(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  params: KdfParams,
+  length: number = 256
+): Promise<ArrayBuffer> {
+  const passwordBytes = new TextEncoder().encode(password);
+
+  switch (params.name) {
+    case 'PBKDF2':
+      return pbkdf2Sha256(passwordBytes, salt, params.iterations, length);
+    case 'scrypt': {
+      const bits = await scrypt(passwordBytes, salt, params.N, params.r, params.p, length / 8);
+      return bits.buffer;
+    }
+  }
+}
+
+/**
+ * scrypt (RFC 7914). PBKDF2 runs through Web Crypto; the memory-hard
+ * ROMix step runs here since browsers do not expose it.
+ */
+export async function scrypt(
+  password: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  N: number,
+  r: number,
+  p: number,
+  dkLen: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const blockWords = 32 * r;
+  const B = new Uint8Array(await pbkdf2Sha256(password, salt, 1, p * blockWords * 32));
+
+  // Salsa20 works on little-endian words
+  const view = new DataView(B.buffer);
+  const words = new Uint32Array(p * blockWords);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = view.getUint32(i * 4, true);
+  }
+
+  const V = new Uint32Array(blockWords * N);
+  const XY = new Uint32Array(blockWords * 2);
+  for (let i = 0; i < p; i++) {
+    roMix(words.subarray(i * blockWords, (i + 1) * blockWords), r, N, V, XY);
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    view.setUint32(i * 4, words[i], true);
+  }
+  return new Uint8Array(await pbkdf2Sha256(password, B, 1, dkLen * 8));
+}
+
+async function pbkdf2Sha256(
+  password: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+  length: number
+): Promise<ArrayBuffer> {
+  const keyMaterial = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+  return await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    length
+  );
+}
+
+function roMix(B: Uint32Array, r: number, N: number, V: Uint32Array, XY: Uint32Array): void {
+  const blockWords = 32 * r;
+  const X = XY.subarray(0, blockWords);
+  const Y = XY.subarray(blockWords);
+  X.set(B);
+
+  for (let i = 0; i < N; i++) {
+    V.set(X, i * blockWords);
+    blockMix(X, Y, r);
+  }
+
+  for (let i = 0; i < N; i++) {
+    // Integerify: first word of the last 64-byte block; N is a power of two
+    const j = X[(2 * r - 1) * 16] & (N - 1);
+    const offset = j * blockWords;
+    for (let k = 0; k < blockWords; k++) {
+      X[k] ^= V[offset + k];
+    }
+    blockMix(X, Y, r);
+  }
+
+  B.set(X);
+}
+
+// BlockMix in place on B, using Y as scratch
+function blockMix(B: Uint32Array, Y: Uint32Array, r: number): void {
+  const X = B.slice((2 * r - 1) * 16, 2 * r * 16);
+
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) {
+      X[k] ^= B[i * 16 + k];
+    }
+    salsa20_8(X);
+    // Even blocks go to the first half of the output, odd blocks to the second
+    Y.set(X, ((i & 1) * r + (i >> 1)) * 16);
+  }
+
+  B.set(Y);
+}
+
+function salsa20_8(B: Uint32Array): void {
+  let x0 = B[0], x1 = B[1], x2 = B[2], x3 = B[3];
+  let x4 = B[4], x5 = B[5], x6 = B[6], x7 = B[7];
+  let x8 = B[8], x9 = B[9], x10 = B[10], x11 = B[11];
+  let x12 = B[12], x13 = B[13], x14 = B[14], x15 = B[15];
+  let u: number;
+
+  for (let i = 0; i < 8; i += 2) {
+    // Column round
+    u = x0 + x12; x4 ^= (u << 7) | (u >>> 25);
+    u = x4 + x0; x8 ^= (u << 9) | (u >>> 23);
+    u = x8 + x4; x12 ^= (u << 13) | (u >>> 19);
+    u = x12 + x8; x0 ^= (u << 18) | (u >>> 14);
+    u = x5 + x1; x9 ^= (u << 7) | (u >>> 25);
+    u = x9 + x5; x13 ^= (u << 9) | (u >>> 23);
+    u = x13 + x9; x1 ^= (u << 13) | (u >>> 19);
+    u = x1 + x13; x5 ^= (u << 18) | (u >>> 14);
+    u = x10 + x6; x14 ^= (u << 7) | (u >>> 25);
+    u = x14 + x10; x2 ^= (u << 9) | (u >>> 23);
+    u = x2 + x14; x6 ^= (u << 13) | (u >>> 19);
+    u = x6 + x2; x10 ^= (u << 18) | (u >>> 14);
+    u = x15 + x11; x3 ^= (u << 7) | (u >>> 25);
+    u = x3 + x15; x7 ^= (u << 9) | (u >>> 23);
+    u = x7 + x3; x11 ^= (u << 13) | (u >>> 19);
+    u = x11 + x7; x15 ^= (u << 18) | (u >>> 14);
+
+    // Row round
+    u = x0 + x3; x1 ^= (u << 7) | (u >>> 25);
+    u = x1 + x0; x2 ^= (u << 9) | (u >>> 23);
+    u = x2 + x1; x3 ^= (u << 13) | (u >>> 19);
+    u = x3 + x2; x0 ^= (u << 18) | (u >>> 14);
+    u = x5 + x4; x6 ^= (u << 7) | (u >>> 25);
+    u = x6 + x5; x7 ^= (u << 9) | (u >>> 23);
+    u = x7 + x6; x4 ^= (u << 13) | (u >>> 19);
+    u = x4 + x7; x5 ^= (u << 18) | (u >>> 14);
+    u = x10 + x9; x11 ^= (u << 7) | (u >>> 25);
+    u = x11 + x10; x8 ^= (u << 9) | (u >>> 23);
+    u = x8 + x11; x9 ^= (u << 13) | (u >>> 19);
+    u = x9 + x8; x10 ^= (u << 18) | (u >>> 14);
+    u = x15 + x14; x12 ^= (u << 7) | (u >>> 25);
+    u = x12 + x15; x13 ^= (u << 9) | (u >>> 23);
+    u = x13 + x12; x14 ^= (u << 13) | (u >>> 19);
+    u = x14 + x13; x15 ^= (u << 18) | (u >>> 14);
+  }
+
+  B[0] += x0; B[1] += x1; B[2] += x2; B[3] += x3;
+  B[4] += x4; B[5] += x5; B[6] += x6; B[7] += x7;
+  B[8] += x8; B[9] += x9; B[10] += x10; B[11] += x11;
+  B[12] += x12; B[13] += x13; B[14] += x14; B[15] += x15;
+}
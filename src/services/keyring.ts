@@ -0,0 +1,189 @@
+import type { KdfParams } from '@/services/kdf';
+import type { KeySource } from '@/services/encryption';
+
+// File keys saved on this device, kept in IndexedDB. Each entry holds its
+// key twice: wrapped under the password or wallet signature it was stored
+// with, and as a non-extractable CryptoKey. KeyManager only hands out the
+// CryptoKey once the secret opens the wrapped copy, and the wrapped copy is
+// the only one that leaves the keyring.
+
+export interface KeyringEntry {
+  id: string; // Manifest CID the key opens
+  label: string; // Shown to the user, usually the file name
+  source: KeySource['type'];
+  encryptedKey: string;
+  iv: string;
+  salt: string;
+  kdf?: KdfParams; // Absent on wallet entries and entries from before KDF parameters were recorded
+  key?: CryptoKey; // Non-extractable; absent until an entry migrated or restored from a backup is first opened
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type WrappedKeyFields = Pick<KeyringEntry, 'source' | 'encryptedKey' | 'iv' | 'salt' | 'kdf'>;
+
+// Entries as KeyManager kept them in localStorage
+interface LegacyKeyEntry {
+  encryptedKey: string;
+  iv: string;
+  salt: string;
+  kdf?: KdfParams;
+  source?: KeySource['type'];
+}
+
+const DATABASE_NAME = 'web3-dropbox-keyring';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'keys';
+const LEGACY_STORAGE_KEY = 'web3-dropbox-keys';
+
+class Keyring {
+  private database: Promise<IDBDatabase> | null = null;
+
+  // All entries, oldest first
+  async list(): Promise<KeyringEntry[]> {
+    const entries = await this.request<KeyringEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(id: string): Promise<KeyringEntry | undefined> {
+    return this.request<KeyringEntry | undefined>('readonly', store => store.get(id));
+  }
+
+  // Add an entry or replace the one with the same id
+  async put(entry: KeyringEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  // Write several entries in one transaction, so either all land or none do
+  async putAll(entries: KeyringEntry[]): Promise<void> {
+    const database = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      entries.forEach(entry => store.put(entry));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Keyring transaction aborted'));
+    });
+  }
+
+  // Put an entry in place of another in one transaction, e.g. when the
+  // file it opens moved to a new manifest
+  async replace(oldId: string, entry: KeyringEntry): Promise<void> {
+    const database = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.delete(oldId);
+      store.put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Keyring transaction aborted'));
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  async rename(id: string, label: string): Promise<void> {
+    const entry = await this.get(id);
+    if (!entry) {
+      throw new Error(`No key stored for ${id}`);
+    }
+    await this.put({ ...entry, label, updatedAt: Date.now() });
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= openDatabase().catch(error => {
+      this.database = null;
+      throw error;
+    });
+    return this.database;
+  }
+}
+
+async function openDatabase(): Promise<IDBDatabase> {
+  const database = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  await migrateLegacyKeys(database);
+  return database;
+}
+
+// Move entries from the localStorage format into the database, once
+async function migrateLegacyKeys(database: IDBDatabase): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  let legacy: Record<string, LegacyKeyEntry>;
+  try {
+    legacy = JSON.parse(stored);
+  } catch (error) {
+    console.error('Discarding unreadable legacy keys:', error);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+
+  const now = Date.now();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const [id, entry] of Object.entries(legacy)) {
+      // Never overwrite an entry that was already migrated or re-stored
+      const existing = store.get(id);
+      existing.onsuccess = () => {
+        if (existing.result) return;
+        store.put({
+          id,
+          label: id,
+          // Entries written before wallet keys existed were always password protected
+          source: entry.source ?? 'password',
+          encryptedKey: entry.encryptedKey,
+          iv: entry.iv,
+          salt: entry.salt,
+          kdf: entry.kdf,
+          createdAt: now,
+          updatedAt: now,
+        } satisfies KeyringEntry);
+      };
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  // Only drop the old copy once every entry is safely in the database
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * An entry without its CryptoKey, for writing it anywhere but the keyring
+ */
+export function portableEntry(entry: KeyringEntry): KeyringEntry {
+  return { ...entry, key: undefined };
+}
+
+export const keyring = new Keyring();
+export default keyring;
@@ -0,0 +1,217 @@
+import { EncryptionService } from '@/services/encryption';
+import { KdfParams, validateKdfParams } from '@/services/kdf';
+import { keyring, KeyringEntry, portableEntry } from '@/services/keyring';
+
+// Encrypted copy of the whole keyring, so clearing browser data does not
+// lose every password-protected file. Entries stay wrapped under their own
+// passwords; the backup passphrase adds a second layer around the set.
+
+const BACKUP_FORMAT = 'web3-dropbox-keyring-backup';
+const BACKUP_VERSION = 1;
+// Costlier than file keys: a backup file may sit anywhere for years
+const BACKUP_KDF: KdfParams = { name: 'scrypt', N: 2 ** 17, r: 8, p: 1 };
+const LAST_BACKUP_STORAGE_KEY = 'web3-dropbox-keyring-last-backup';
+// Backups older than this are flagged even if nothing changed since
+const BACKUP_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Public part of a backup file, bound to the ciphertext as additional data
+interface KeyringBackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  kdf: KdfParams & { salt: string };
+  createdAt: number;
+}
+
+interface KeyringBackupFile extends KeyringBackupHeader {
+  iv: string;
+  ciphertext: string;
+}
+
+export interface KeyringImportResult {
+  added: number;
+  updated: number; // Replaced by a newer copy from the backup
+  unchanged: number;
+}
+
+export interface KeyringBackupStatus {
+  entryCount: number;
+  lastBackupAt: number | null;
+  due: boolean;
+}
+
+/**
+ * Encrypt every keyring entry into a backup file under a passphrase
+ */
+export async function exportKeyringBackup(passphrase: string): Promise<Blob> {
+  const entries = await keyring.list();
+  const salt = EncryptionService.generateSalt();
+  const header: KeyringBackupHeader = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { ...BACKUP_KDF, salt: EncryptionService.arrayBufferToBase64(salt.buffer) },
+    createdAt: Date.now(),
+  };
+
+  const key = await EncryptionService.deriveKeyFromPassword(passphrase, salt, BACKUP_KDF);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encodeHeader(header) },
+    key,
+    new TextEncoder().encode(JSON.stringify(entries.map(portableEntry)))
+  );
+
+  const backup: KeyringBackupFile = {
+    ...header,
+    iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+    ciphertext: EncryptionService.arrayBufferToBase64(ciphertext),
+  };
+  localStorage.setItem(LAST_BACKUP_STORAGE_KEY, String(header.createdAt));
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+}
+
+/**
+ * Decrypt a backup file and merge its entries into the keyring. Entries
+ * missing here are added; an entry present on both sides is replaced only
+ * when the backup's copy was updated more recently. Nothing is written
+ * unless the whole file decrypts and validates.
+ */
+export async function importKeyringBackup(file: Blob, passphrase: string): Promise<KeyringImportResult> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+  const backup = validateBackupFile(value);
+  const { iv, ciphertext, ...header } = backup;
+  const { salt, ...kdf } = header.kdf;
+
+  const key = await EncryptionService.deriveKeyFromPassword(
+    passphrase,
+    new Uint8Array(EncryptionService.base64ToArrayBuffer(salt)),
+    kdf
+  );
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(EncryptionService.base64ToArrayBuffer(iv)),
+        additionalData: encodeHeader(header),
+      },
+      key,
+      EncryptionService.base64ToArrayBuffer(ciphertext)
+    );
+  } catch {
+    throw new Error('Could not open backup - wrong passphrase or damaged file');
+  }
+
+  const incoming = validateEntries(JSON.parse(new TextDecoder().decode(plaintext)));
+  const result: KeyringImportResult = { added: 0, updated: 0, unchanged: 0 };
+  const changed: KeyringEntry[] = [];
+
+  for (const entry of incoming) {
+    const existing = await keyring.get(entry.id);
+    if (!existing) {
+      result.added++;
+      changed.push(entry);
+    } else if (entry.updatedAt > existing.updatedAt) {
+      result.updated++;
+      // Same file, so the same key: the device copy stays valid
+      changed.push({ ...entry, key: existing.key });
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  if (changed.length > 0) {
+    await keyring.putAll(changed);
+  }
+  return result;
+}
+
+/**
+ * Whether the keyring holds entries that no backup made on this device
+ * covers, or the last backup is older than BACKUP_MAX_AGE_MS
+ */
+export async function getKeyringBackupStatus(): Promise<KeyringBackupStatus> {
+  const entries = await keyring.list();
+  const stored = Number(localStorage.getItem(LAST_BACKUP_STORAGE_KEY));
+  const lastBackupAt = stored > 0 ? stored : null;
+
+  let due = false;
+  if (entries.length > 0) {
+    due = lastBackupAt === null ||
+      Date.now() - lastBackupAt > BACKUP_MAX_AGE_MS ||
+      entries.some(entry => entry.updatedAt > lastBackupAt);
+  }
+  return { entryCount: entries.length, lastBackupAt, due };
+}
+
+function encodeHeader(header: KeyringBackupHeader): Uint8Array<ArrayBuffer> {
+  // Fixed field order, so the additional data matches whatever order the file used
+  const { format, version, kdf, createdAt } = header;
+  return new TextEncoder().encode(JSON.stringify({ format, version, kdf, createdAt }));
+}
+
+function validateBackupFile(value: unknown): KeyringBackupFile {
+  const backup = (value ?? {}) as Record<string, unknown>;
+  if (backup.format !== BACKUP_FORMAT) {
+    throw new Error('Not a keyring backup file');
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported keyring backup version ${String(backup.version)}`);
+  }
+
+  const kdf = (backup.kdf ?? {}) as Record<string, unknown>;
+  if (typeof kdf.salt !== 'string') {
+    throw new Error('Keyring backup is missing its salt');
+  }
+  if (typeof backup.createdAt !== 'number' || typeof backup.iv !== 'string' || typeof backup.ciphertext !== 'string') {
+    throw new Error('Keyring backup is incomplete');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { ...validateKdfParams(kdf), salt: kdf.salt },
+    createdAt: backup.createdAt,
+    iv: backup.iv,
+    ciphertext: backup.ciphertext,
+  };
+}
+
+function validateEntries(value: unknown): KeyringEntry[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Keyring backup does not contain a list of entries');
+  }
+
+  return value.map((item, index): KeyringEntry => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const strings = ['id', 'label', 'encryptedKey', 'iv', 'salt'] as const;
+    for (const field of strings) {
+      if (typeof entry[field] !== 'string') {
+        throw new Error(`Keyring backup entry ${index} has no ${field}`);
+      }
+    }
+    if (entry.source !== 'password' && entry.source !== 'wallet') {
+      throw new Error(`Keyring backup entry ${index} has an unknown source`);
+    }
+    if (typeof entry.createdAt !== 'number' || typeof entry.updatedAt !== 'number') {
+      throw new Error(`Keyring backup entry ${index} has no timestamps`);
+    }
+
+    return {
+      id: entry.id as string,
+      label: entry.label as string,
+      source: entry.source,
+      encryptedKey: entry.encryptedKey as string,
+      iv: entry.iv as string,
+      salt: entry.salt as string,
+      kdf: entry.kdf === undefined ? undefined : validateKdfParams(entry.kdf),
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  });
+}
@@ -0,0 +1,242 @@
+import { KeyManager, KeySource } from '@/services/encryption';
+import { keyring, KeyringEntry, portableEntry } from '@/services/keyring';
+import { deriveManifestKey, isSealedManifest, openManifest, parseManifest, resealManifestForPassword, SealedManifest } from '@/services/manifest';
+import { downloadFromIPFS, removeFromIPFS, uploadToIPFS } from '@/services/ipfs';
+import { toUploadFile } from '@/services/fileTransfer';
+import { fileIndexService } from '@/services/fileIndex';
+import { sharingService } from '@/services/sharing';
+
+// Changing the password that protects keyring entries. Every entry is
+// unwrapped with the old password and re-wrapped with the new one; the
+// results are only written, in one transaction, once all of them are done.
+// Until then each re-wrapped entry is staged in localStorage. Staged
+// entries are already under the new password, so they are as safe there as
+// in the keyring, and an interrupted change resumes from them. Only the
+// wrapped copy changes: each entry's CryptoKey is the same file key.
+//
+// Files uploaded with a password also carry it in their manifest header,
+// which derives the file key from it. Once the keyring is written, each of
+// those manifests is sealed again with the file key wrapped under the new
+// password and the file moves to the new manifest: in the keyring, the file
+// index and its share grants. The old manifest is removed from this node,
+// but copies fetched elsewhere still open with the old password. The change
+// stays pending until every manifest moved, so resuming it retries the rest.
+
+const PENDING_STORAGE_KEY = 'web3-dropbox-keyring-password-change';
+
+// One entry re-wrapped under the new password
+interface StagedEntry {
+  replaces: string; // encryptedKey of the entry it was made from
+  entry: KeyringEntry;
+}
+
+interface PendingPasswordChange {
+  startedAt: number;
+  staged: Record<string, StagedEntry>;
+}
+
+export interface PasswordChangeProgress {
+  stage: 'keys' | 'manifests';
+  done: number;
+  total: number;
+}
+
+export interface PasswordChangeResult {
+  changed: number;
+  alreadyChanged: number; // Already under the new password, e.g. from an earlier change
+  otherPassword: KeyringEntry[]; // Opened by neither password; left as they were
+  resealed: Record<string, string>; // Old manifest CID to the one sealed under the new password
+  notResealed: KeyringEntry[]; // Manifests that still open only with the old password
+}
+
+/**
+ * A change that was interrupted before it could be written, if any
+ */
+export function getPendingPasswordChange(): { startedAt: number; staged: number } | null {
+  const pending = loadPending();
+  return pending ? { startedAt: pending.startedAt, staged: Object.keys(pending.staged).length } : null;
+}
+
+/**
+ * Drop an interrupted change. The keyring was never touched by it.
+ */
+export function discardPasswordChange(): void {
+  localStorage.removeItem(PENDING_STORAGE_KEY);
+}
+
+/**
+ * Re-wrap every password entry of the keyring from one password to another
+ * and re-seal the owner's manifests behind them. An interrupted change
+ * picks up where it stopped when called again with the same new password.
+ */
+export async function changeKeyringPassword(
+  ownerUid: string,
+  oldPassword: string,
+  newPassword: string,
+  onProgress?: (progress: PasswordChangeProgress) => void
+): Promise<PasswordChangeResult> {
+  if (!newPassword) {
+    throw new Error('The new password cannot be empty');
+  }
+  if (oldPassword === newPassword) {
+    throw new Error('The new password must differ from the current one');
+  }
+  const oldSource: KeySource = { type: 'password', password: oldPassword };
+  const newSource: KeySource = { type: 'password', password: newPassword };
+
+  const pending = loadPending() ?? { startedAt: Date.now(), staged: {} };
+  await checkResumedPassword(pending, newSource);
+
+  const result: PasswordChangeResult = { changed: 0, alreadyChanged: 0, otherPassword: [], resealed: {}, notResealed: [] };
+  let entries = await listPasswordEntries();
+  const seen = new Set<string>();
+  let done = 0;
+
+  // Entries stored or re-stored while this ran are handled before writing
+  while (entries.length > 0) {
+    const total = done + entries.length;
+    for (const entry of entries) {
+      seen.add(entry.id);
+      const staged = pending.staged[entry.id];
+      if (staged?.replaces !== entry.encryptedKey) {
+        // Extractable only for as long as it takes to re-wrap it
+        const key = await unwrapWith(entry, oldSource, true);
+        if (key) {
+          pending.staged[entry.id] = {
+            replaces: entry.encryptedKey,
+            entry: portableEntry({ ...entry, ...await KeyManager.wrapKey(key, newSource), updatedAt: Date.now() }),
+          };
+          savePending(pending);
+        } else {
+          delete pending.staged[entry.id];
+          if (await unwrapWith(entry, newSource)) {
+            result.alreadyChanged++;
+          } else {
+            result.otherPassword.push(entry);
+          }
+        }
+      }
+      onProgress?.({ stage: 'keys', done: ++done, total });
+    }
+
+    const current = await listPasswordEntries();
+    entries = current.filter(entry => {
+      const staged = pending.staged[entry.id];
+      return !seen.has(entry.id) || (staged !== undefined && staged.replaces !== entry.encryptedKey);
+    });
+    // Entries deleted meanwhile must not come back
+    const currentIds = new Set(current.map(entry => entry.id));
+    for (const id of Object.keys(pending.staged)) {
+      if (!currentIds.has(id)) {
+        delete pending.staged[id];
+      }
+    }
+  }
+
+  const deviceKeys = new Map((await listPasswordEntries()).map(entry => [entry.id, entry.key]));
+  const rewrapped = Object.values(pending.staged).map(staged => ({
+    ...staged.entry,
+    key: deviceKeys.get(staged.entry.id),
+  }));
+  await keyring.putAll(rewrapped);
+  result.changed = rewrapped.length;
+
+  const resealable = await listPasswordEntries();
+  for (const [index, entry] of resealable.entries()) {
+    try {
+      const movedTo = await resealEntry(ownerUid, entry, newPassword, newSource);
+      if (movedTo) {
+        result.resealed[entry.id] = movedTo;
+      }
+    } catch (error) {
+      console.error(`Could not re-seal manifest ${entry.id}:`, error);
+      result.notResealed.push(entry);
+    }
+    onProgress?.({ stage: 'manifests', done: index + 1, total: resealable.length });
+  }
+
+  if (result.notResealed.length === 0) {
+    discardPasswordChange();
+  }
+  return result;
+}
+
+async function listPasswordEntries(): Promise<KeyringEntry[]> {
+  const entries = await keyring.list();
+  return entries.filter(entry => entry.source === 'password');
+}
+
+// Move a password upload to a manifest sealed under the new password,
+// returning its CID, or null if there is nothing to re-seal. A new manifest
+// is indexed and shared before the keyring points at it, so an interruption
+// leaves the file reachable through one manifest or the other.
+async function resealEntry(
+  ownerUid: string,
+  entry: KeyringEntry,
+  newPassword: string,
+  newSource: KeySource
+): Promise<string | null> {
+  const key = await unwrapWith(entry, newSource, true);
+  if (!key) return null; // Under another password; reported with the keys
+
+  const manifest = parseManifest(await downloadFromIPFS(entry.id));
+  if (!isSealedManifest(manifest)) {
+    throw new Error('Manifests from before sealed headers cannot be re-sealed');
+  }
+  if (!manifest.header.kdf || await opensWith(manifest, newPassword)) return null;
+
+  const resealed = await resealManifestForPassword(manifest, key, newPassword);
+  const cid = await uploadToIPFS(toUploadFile(JSON.stringify(resealed), 'manifest'));
+  await fileIndexService.addFile(ownerUid, cid);
+  await sharingService.moveFileGrants(ownerUid, entry.id, cid);
+  await keyring.replace(entry.id, { ...entry, id: cid, updatedAt: Date.now() });
+  await fileIndexService.removeFile(ownerUid, entry.id);
+  await removeFromIPFS(entry.id);
+  return cid;
+}
+
+async function opensWith(manifest: SealedManifest, password: string): Promise<boolean> {
+  try {
+    await openManifest(manifest, await deriveManifestKey(manifest.header, password));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The entry's key, or null if the secret does not open it
+async function unwrapWith(entry: KeyringEntry, source: KeySource, extractable = false): Promise<CryptoKey | null> {
+  try {
+    return await KeyManager.unwrapKey(entry, source, extractable);
+  } catch {
+    return null;
+  }
+}
+
+// Staged entries must all be under the same new password
+async function checkResumedPassword(pending: PendingPasswordChange, newSource: KeySource): Promise<void> {
+  const first = Object.values(pending.staged)[0];
+  if (first && !await unwrapWith(first.entry, newSource)) {
+    throw new Error('An unfinished password change used a different new password. Finish it with that password or discard it.');
+  }
+}
+
+function loadPending(): PendingPasswordChange | null {
+  const stored = localStorage.getItem(PENDING_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    const pending = JSON.parse(stored) as PendingPasswordChange;
+    if (typeof pending.startedAt !== 'number' || typeof pending.staged !== 'object' || !pending.staged) {
+      throw new Error('Malformed pending password change');
+    }
+    return pending;
+  } catch (error) {
+    console.error('Discarding unreadable password change:', error);
+    discardPasswordChange();
+    return null;
+  }
+}
+
+function savePending(pending: PendingPasswordChange): void {
+  localStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+}
@@ -0,0 +1,600 @@
+import { CID } from 'multiformats/cid';
+import { EncryptionService, ChunkedFileMetadata } from '@/services/encryption';
+import { CURRENT_KDF, LEGACY_KDF, KdfParams, deriveKdfBits, validateKdfParams } from '@/services/kdf';
+import { ErasureLayout, stripeCount, validateErasureParams } from '@/services/erasure';
+import { CompressionInfo, payloadSize } from '@/services/compression';
+import type { WrappedFileKey } from '@/services/vault';
+import type { ManifestSignature } from '@/services/manifestSignature';
+
+// Thrown when stored metadata does not match any supported manifest schema
+export class ManifestError extends Error {
+  constructor(message: string, readonly field?: string) {
+    super(field ? `${field}: ${message}` : message);
+    this.name = 'ManifestError';
+  }
+}
+
+export const CURRENT_MANIFEST_VERSION = 1;
+
+// Password key derivation parameters, needed before the body can be opened
+export type ManifestKdfParams = KdfParams & { salt: string };
+
+// Public part of a sealed manifest: only what is needed to recover the file key
+export interface SealedManifestHeader {
+  version: 1;
+  kdf?: ManifestKdfParams;
+  wrappedKey?: WrappedFileKey; // Wrapped by the vault; uploads before per-file key records
+  recordWrappedKey?: WrappedFileKey; // Wrapped by a per-file key from the owner's deletable key record
+  passwordWrappedKey?: WrappedFileKey; // Wrapped by the key kdf derives; set when a password change re-sealed the manifest
+}
+
+// Everything describing the file itself, encrypted under the file key
+interface ManifestBodyBase {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  userId?: string;
+  compression?: CompressionInfo; // Absent when the file was stored uncompressed
+  merkleRoot: string;
+  chunkCount: number;
+  chunkHashes: string[];
+  erasure?: ErasureLayout; // Parity chunks; absent on uploads without redundancy
+  signature?: ManifestSignature; // Owner's wallet signature over the rest of the body
+}
+
+// Fixed-size chunks encrypted with the file key
+export interface StreamManifestBody extends ManifestBodyBase {
+  encryption: 'aes-gcm-stream';
+  noncePrefix: string;
+  chunkSize: number;
+}
+
+// Content-defined chunks, each under its own convergent key
+export interface ContentDefinedManifestBody extends ManifestBodyBase {
+  encryption: 'aes-gcm-cdc';
+  chunkLengths: number[];
+  chunkKeys: string[];
+}
+
+export type ManifestBody = StreamManifestBody | ContentDefinedManifestBody;
+
+export interface SealedManifest {
+  header: SealedManifestHeader;
+  iv: string;
+  ciphertext: string;
+}
+
+// Fields shared by the unversioned metadata written before sealed manifests
+interface LegacyManifestBase {
+  version: 0;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  userId?: string;
+  salt?: string;
+  merkleRoot: string;
+  chunkCount: number;
+  chunkHashes: string[];
+  encryptionKey?: string;
+  wrappedKey?: WrappedFileKey;
+}
+
+// Whole file encrypted as one AES-GCM blob, then sliced
+export interface LegacyBlobManifest extends LegacyManifestBase {
+  encryption: 'aes-gcm';
+  iv: string;
+}
+
+// Plaintext metadata of a streamed upload
+export interface LegacyStreamManifest extends LegacyManifestBase {
+  encryption: 'aes-gcm-stream';
+  noncePrefix: string;
+  chunkSize: number;
+}
+
+export type LegacyManifest = LegacyBlobManifest | LegacyStreamManifest;
+
+export type StoredManifest = SealedManifest | LegacyManifest;
+
+/**
+ * Check whether a stored manifest is sealed
+ */
+export function isSealedManifest(manifest: StoredManifest): manifest is SealedManifest {
+  return 'header' in manifest;
+}
+
+/**
+ * Parse and validate manifest bytes fetched from storage. Unversioned
+ * metadata is migrated to a typed version 0 manifest.
+ */
+export function parseManifest(data: Uint8Array): StoredManifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ManifestError('Manifest is not valid JSON');
+  }
+
+  const value = expectObject(raw, 'manifest');
+  if ('header' in value) {
+    return validateSealedManifest(value);
+  }
+  if ('version' in value) {
+    throw new ManifestError(`Unsupported manifest version ${String(value.version)}`, 'version');
+  }
+  return migrateLegacyManifest(value);
+}
+
+/**
+ * Encrypt the manifest body under the file key. The header is bound as
+ * additional data so it cannot be swapped without breaking the body.
+ */
+export async function sealManifest(
+  header: SealedManifestHeader,
+  body: ManifestBody,
+  key: CryptoKey
+): Promise<SealedManifest> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: encodeHeader(header),
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(body))
+  );
+
+  return {
+    header,
+    iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+    ciphertext: EncryptionService.arrayBufferToBase64(ciphertext),
+  };
+}
+
+/**
+ * Decrypt the manifest body with the recovered file key
+ */
+export async function openManifest(
+  manifest: SealedManifest,
+  key: CryptoKey
+): Promise<ManifestBody> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(EncryptionService.base64ToArrayBuffer(manifest.iv)),
+        additionalData: encodeHeader(manifest.header),
+      },
+      key,
+      EncryptionService.base64ToArrayBuffer(manifest.ciphertext)
+    );
+  } catch {
+    throw new Error('Could not open manifest - wrong key or tampered header');
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new ManifestError('Manifest body is not valid JSON', 'body');
+  }
+  return validateManifestBody(body);
+}
+
+/**
+ * Seal the metadata of a streamed upload. Password uploads record their KDF
+ * parameters; vault uploads carry the wrapped file key instead.
+ */
+export async function sealFileManifest(
+  metadata: ChunkedFileMetadata,
+  chunkHashes: string[],
+  key: CryptoKey,
+  options: {
+    userId?: string;
+    wrappedKey?: WrappedFileKey;
+    recordWrappedKey?: WrappedFileKey;
+    erasure?: ErasureLayout;
+    sign?: (body: ManifestBody) => Promise<ManifestSignature>; // Signs as the owner before sealing
+  } = {}
+): Promise<SealedManifest> {
+  const header: SealedManifestHeader = { version: CURRENT_MANIFEST_VERSION };
+  if (metadata.salt) {
+    header.kdf = { ...(metadata.kdf ?? LEGACY_KDF), salt: metadata.salt };
+  }
+  if (options.wrappedKey) {
+    header.wrappedKey = options.wrappedKey;
+  }
+  if (options.recordWrappedKey) {
+    header.recordWrappedKey = options.recordWrappedKey;
+  }
+
+  const base: ManifestBodyBase = {
+    fileName: metadata.fileName,
+    fileSize: metadata.fileSize,
+    mimeType: metadata.mimeType,
+    userId: options.userId,
+    compression: metadata.compression,
+    merkleRoot: metadata.merkleRoot,
+    chunkCount: metadata.chunkCount,
+    chunkHashes,
+    erasure: options.erasure,
+  };
+  const body: ManifestBody = metadata.encryption === 'aes-gcm-cdc'
+    ? {
+        ...base,
+        encryption: 'aes-gcm-cdc',
+        chunkLengths: metadata.chunkLengths,
+        chunkKeys: metadata.chunkKeys,
+      }
+    : {
+        ...base,
+        encryption: 'aes-gcm-stream',
+        noncePrefix: metadata.noncePrefix,
+        chunkSize: metadata.chunkSize,
+      };
+  if (options.sign) {
+    body.signature = await options.sign(body);
+  }
+
+  return sealManifest(header, body, key);
+}
+
+/**
+ * Derive the file key of a password-protected manifest
+ */
+export async function deriveManifestKey(
+  header: SealedManifestHeader,
+  password: string
+): Promise<CryptoKey> {
+  if (!header.kdf) {
+    throw new Error('Manifest is not password protected');
+  }
+
+  const { salt, ...kdf } = header.kdf;
+  const saltBytes = new Uint8Array(EncryptionService.base64ToArrayBuffer(salt));
+  if (!header.passwordWrappedKey) {
+    return EncryptionService.deriveKeyFromPassword(password, saltBytes, kdf);
+  }
+
+  const kek = await passwordWrappingKey(password, saltBytes, kdf, 'unwrapKey');
+  return crypto.subtle.unwrapKey(
+    'raw',
+    EncryptionService.base64ToArrayBuffer(header.passwordWrappedKey.wrappedKey),
+    kek,
+    'AES-KW',
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Seal a password-protected manifest again under a new password. The file
+ * key stays the same, so the chunks and share grants keep working; the new
+ * header wraps it under the new password instead of deriving it from the
+ * old one. The key must be extractable.
+ */
+export async function resealManifestForPassword(
+  manifest: SealedManifest,
+  key: CryptoKey,
+  password: string
+): Promise<SealedManifest> {
+  const body = await openManifest(manifest, key);
+  const salt = EncryptionService.generateSalt();
+  const kek = await passwordWrappingKey(password, salt, CURRENT_KDF, 'wrapKey');
+  const wrapped = await crypto.subtle.wrapKey('raw', key, kek, 'AES-KW');
+
+  return sealManifest({
+    version: CURRENT_MANIFEST_VERSION,
+    kdf: { ...CURRENT_KDF, salt: EncryptionService.arrayBufferToBase64(salt.buffer) },
+    passwordWrappedKey: { alg: 'AES-KW', wrappedKey: EncryptionService.arrayBufferToBase64(wrapped) },
+  }, body, key);
+}
+
+async function passwordWrappingKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  kdf: KdfParams,
+  usage: 'wrapKey' | 'unwrapKey'
+): Promise<CryptoKey> {
+  const bits = await deriveKdfBits(password, salt, kdf);
+  return crypto.subtle.importKey('raw', bits, 'AES-KW', false, [usage]);
+}
+
+function encodeHeader(header: SealedManifestHeader): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify(header));
+}
+
+function validateSealedManifest(value: Record<string, unknown>): SealedManifest {
+  const header = expectObject(value.header, 'header');
+  if (header.version !== CURRENT_MANIFEST_VERSION) {
+    throw new ManifestError(`Unsupported manifest version ${String(header.version)}`, 'header.version');
+  }
+
+  // Rebuilt in the field order sealFileManifest writes, which is what the body is bound to
+  const validated: SealedManifestHeader = { version: CURRENT_MANIFEST_VERSION };
+  if (header.kdf !== undefined) {
+    const kdf = expectObject(header.kdf, 'header.kdf');
+    let params: KdfParams;
+    try {
+      params = validateKdfParams(kdf);
+    } catch (error) {
+      throw new ManifestError((error as Error).message, 'header.kdf');
+    }
+    validated.kdf = { ...params, salt: expectBase64(kdf.salt, 'header.kdf.salt', 16) };
+  }
+  if (header.wrappedKey !== undefined) {
+    validated.wrappedKey = expectWrappedKey(header.wrappedKey, 'header.wrappedKey');
+  }
+  if (header.recordWrappedKey !== undefined) {
+    validated.recordWrappedKey = expectWrappedKey(header.recordWrappedKey, 'header.recordWrappedKey');
+  }
+  if (header.passwordWrappedKey !== undefined) {
+    if (!validated.kdf) {
+      throw new ManifestError('Password-wrapped key without KDF parameters', 'header.passwordWrappedKey');
+    }
+    validated.passwordWrappedKey = expectWrappedKey(header.passwordWrappedKey, 'header.passwordWrappedKey');
+  }
+  if (!validated.kdf && !validated.wrappedKey && !validated.recordWrappedKey) {
+    throw new ManifestError('Header names no way to recover the file key', 'header');
+  }
+
+  return {
+    header: validated,
+    iv: expectBase64(value.iv, 'iv', 12),
+    ciphertext: expectBase64(value.ciphertext, 'ciphertext'),
+  };
+}
+
+function validateManifestBody(raw: unknown): ManifestBody {
+  const value = expectObject(raw, 'body');
+  const base: ManifestBodyBase = {
+    fileName: expectString(value.fileName, 'body.fileName'),
+    fileSize: expectCount(value.fileSize, 'body.fileSize', 0),
+    mimeType: expectString(value.mimeType, 'body.mimeType', true),
+    userId: value.userId === undefined ? undefined : expectString(value.userId, 'body.userId'),
+    compression: value.compression === undefined ? undefined : expectCompression(value.compression, 'body.compression'),
+    merkleRoot: expectMerkleRoot(value.merkleRoot, 'body.merkleRoot'),
+    chunkCount: expectCount(value.chunkCount, 'body.chunkCount'),
+    chunkHashes: expectCids(value.chunkHashes, 'body.chunkHashes'),
+  };
+
+  let body: ManifestBody;
+  if (value.encryption === 'aes-gcm-stream') {
+    body = {
+      ...base,
+      encryption: 'aes-gcm-stream',
+      noncePrefix: expectBase64(value.noncePrefix, 'body.noncePrefix', 7),
+      chunkSize: expectCount(value.chunkSize, 'body.chunkSize'),
+    };
+    checkStreamLayout(body, 'body');
+  } else if (value.encryption === 'aes-gcm-cdc') {
+    body = {
+      ...base,
+      encryption: 'aes-gcm-cdc',
+      chunkLengths: expectLengths(value.chunkLengths, 'body.chunkLengths', payloadSize(base)),
+      chunkKeys: expectBase64List(value.chunkKeys, 'body.chunkKeys', 32),
+    };
+    checkContentDefinedLayout(body, 'body');
+  } else {
+    throw new ManifestError(`Unsupported encryption mode ${String(value.encryption)}`, 'body.encryption');
+  }
+
+  if (value.erasure !== undefined) {
+    body.erasure = expectErasureLayout(value.erasure, body.chunkCount, 'body.erasure');
+  }
+  if (value.signature !== undefined) {
+    body.signature = expectSignature(value.signature, 'body.signature');
+  }
+  return body;
+}
+
+// Readers for the unversioned metadata formats
+function migrateLegacyManifest(value: Record<string, unknown>): LegacyManifest {
+  const base = {
+    version: 0 as const,
+    fileName: expectString(value.fileName, 'fileName'),
+    fileSize: expectCount(value.fileSize, 'fileSize', 0),
+    mimeType: expectString(value.mimeType, 'mimeType', true),
+    userId: value.userId === undefined ? undefined : expectString(value.userId, 'userId'),
+    salt: value.salt === undefined ? undefined : expectBase64(value.salt, 'salt', 16),
+    merkleRoot: expectHash(value.merkleRoot, 'merkleRoot'),
+    chunkCount: expectCount(value.chunkCount, 'chunkCount'),
+    chunkHashes: expectCids(value.chunkHashes, 'chunkHashes'),
+    encryptionKey: value.encryptionKey === undefined ? undefined : expectBase64(value.encryptionKey, 'encryptionKey', 32),
+    wrappedKey: value.wrappedKey === undefined ? undefined : expectWrappedKey(value.wrappedKey, 'wrappedKey'),
+  };
+
+  if (base.chunkHashes.length !== base.chunkCount) {
+    throw new ManifestError(`Expected ${base.chunkCount} chunk hashes, found ${base.chunkHashes.length}`, 'chunkHashes');
+  }
+
+  if (value.encryption === 'aes-gcm-stream') {
+    const manifest: LegacyStreamManifest = {
+      ...base,
+      encryption: 'aes-gcm-stream',
+      noncePrefix: expectBase64(value.noncePrefix, 'noncePrefix', 7),
+      chunkSize: expectCount(value.chunkSize, 'chunkSize'),
+    };
+    checkStreamLayout(manifest);
+    return manifest;
+  }
+  if (value.encryption !== undefined) {
+    throw new ManifestError(`Unsupported encryption mode ${String(value.encryption)}`, 'encryption');
+  }
+
+  // The first format had no encryption field: one AES-GCM blob with a single IV
+  return {
+    ...base,
+    encryption: 'aes-gcm',
+    iv: expectBase64(value.iv, 'iv', 12),
+  };
+}
+
+// The chunk list must match the stored size, or decryption fails halfway through
+function checkStreamLayout(
+  manifest: Pick<StreamManifestBody, 'fileSize' | 'compression' | 'chunkSize' | 'chunkCount' | 'chunkHashes'>,
+  prefix?: string
+): void {
+  const field = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const size = payloadSize(manifest);
+  const expectedChunks = Math.max(1, Math.ceil(size / manifest.chunkSize));
+  if (manifest.chunkCount !== expectedChunks) {
+    throw new ManifestError(
+      `Expected ${expectedChunks} chunks for ${size} bytes, found ${manifest.chunkCount}`,
+      field('chunkCount')
+    );
+  }
+  if (manifest.chunkHashes.length !== manifest.chunkCount) {
+    throw new ManifestError(
+      `Expected ${manifest.chunkCount} chunk hashes, found ${manifest.chunkHashes.length}`,
+      field('chunkHashes')
+    );
+  }
+}
+
+// Every chunk needs a key and a length, and the lengths must add up to the file
+function checkContentDefinedLayout(body: ContentDefinedManifestBody, prefix: string): void {
+  for (const name of ['chunkLengths', 'chunkKeys', 'chunkHashes'] as const) {
+    if (body[name].length !== body.chunkCount) {
+      throw new ManifestError(`Expected ${body.chunkCount} entries, found ${body[name].length}`, `${prefix}.${name}`);
+    }
+  }
+  const total = body.chunkLengths.reduce((sum, length) => sum + length, 0);
+  if (total !== payloadSize(body)) {
+    throw new ManifestError(`Chunk lengths add up to ${total}, not ${payloadSize(body)} bytes`, `${prefix}.chunkLengths`);
+  }
+}
+
+function expectCompression(value: unknown, field: string): CompressionInfo {
+  const compression = expectObject(value, field);
+  if (compression.codec !== 'gzip') {
+    throw new ManifestError(`Unsupported compression codec ${String(compression.codec)}`, `${field}.codec`);
+  }
+  return {
+    codec: 'gzip',
+    compressedSize: expectCount(compression.compressedSize, `${field}.compressedSize`, 0),
+  };
+}
+
+function expectErasureLayout(value: unknown, chunkCount: number, field: string): ErasureLayout {
+  const layout = expectObject(value, field);
+  let params;
+  try {
+    params = validateErasureParams({
+      dataShards: layout.dataShards as number,
+      parityShards: layout.parityShards as number,
+    });
+  } catch (error) {
+    throw new ManifestError((error as Error).message, field);
+  }
+
+  const parityHashes = expectCids(layout.parityHashes, `${field}.parityHashes`);
+  const expected = stripeCount(chunkCount, params.dataShards) * params.parityShards;
+  if (parityHashes.length !== expected) {
+    throw new ManifestError(`Expected ${expected} parity hashes, found ${parityHashes.length}`, `${field}.parityHashes`);
+  }
+  return { ...params, parityHashes };
+}
+
+function expectObject(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ManifestError('Expected an object', field);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, field: string, allowEmpty = false): string {
+  if (typeof value !== 'string' || (!allowEmpty && value.length === 0)) {
+    throw new ManifestError('Expected a non-empty string', field);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, field: string, min = 1): number {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < min) {
+    throw new ManifestError(`Expected an integer of at least ${min}`, field);
+  }
+  return value;
+}
+
+function expectBase64(value: unknown, field: string, byteLength?: number): string {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 !== 0) {
+    throw new ManifestError('Expected base64 data', field);
+  }
+  if (byteLength !== undefined && EncryptionService.base64ToArrayBuffer(value).byteLength !== byteLength) {
+    throw new ManifestError(`Expected ${byteLength} bytes`, field);
+  }
+  return value;
+}
+
+function expectBase64List(value: unknown, field: string, byteLength: number): string[] {
+  if (!Array.isArray(value)) {
+    throw new ManifestError('Expected an array', field);
+  }
+  return value.map((item, i) => expectBase64(item, `${field}[${i}]`, byteLength));
+}
+
+// Only an empty payload has an empty chunk
+function expectLengths(value: unknown, field: string, size: number): number[] {
+  if (!Array.isArray(value)) {
+    throw new ManifestError('Expected an array', field);
+  }
+  return value.map((item, i) => expectCount(item, `${field}[${i}]`, size === 0 ? 0 : 1));
+}
+
+function expectHash(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !/^[0-9a-f]{64}$/.test(value)) {
+    throw new ManifestError('Expected a SHA-256 hex digest', field);
+  }
+  return value;
+}
+
+// bytes32 roots from merkle.ts, or bare hex roots from the legacy tree
+function expectMerkleRoot(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !/^(0x)?[0-9a-f]{64}$/.test(value)) {
+    throw new ManifestError('Expected a Merkle root', field);
+  }
+  return value;
+}
+
+function expectSignature(value: unknown, field: string): ManifestSignature {
+  const signature = expectObject(value, field);
+  if (typeof signature.owner !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(signature.owner)) {
+    throw new ManifestError('Expected an address', `${field}.owner`);
+  }
+  if (typeof signature.signature !== 'string' || !/^0x([0-9a-fA-F]{2})+$/.test(signature.signature)) {
+    throw new ManifestError('Expected a hex signature', `${field}.signature`);
+  }
+  return {
+    owner: signature.owner as ManifestSignature['owner'],
+    signature: signature.signature as ManifestSignature['signature'],
+  };
+}
+
+function expectCids(value: unknown, field: string): string[] {
+  if (!Array.isArray(value)) {
+    throw new ManifestError('Expected an array of CIDs', field);
+  }
+  return value.map((item, i) => {
+    try {
+      return CID.parse(expectString(item, `${field}[${i}]`)).toString();
+    } catch (error) {
+      if (error instanceof ManifestError) throw error;
+      throw new ManifestError('Expected a CID', `${field}[${i}]`);
+    }
+  });
+}
+
+function expectWrappedKey(value: unknown, field: string): WrappedFileKey {
+  const wrapped = expectObject(value, field);
+  if (wrapped.alg !== 'AES-KW') {
+    throw new ManifestError(`Unsupported key wrapping algorithm ${String(wrapped.alg)}`, `${field}.alg`);
+  }
+  return {
+    alg: 'AES-KW',
+    wrappedKey: expectBase64(wrapped.wrappedKey, `${field}.wrappedKey`, 40),
+  };
+}
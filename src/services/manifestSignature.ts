@@ -0,0 +1,109 @@
+import { Address, Hex, isAddressEqual, keccak256, recoverTypedDataAddress, stringToBytes } from 'viem';
+import type { ManifestBody } from '@/services/manifest';
+
+// Owner signatures on manifest bodies. The owner's wallet signs EIP-712
+// typed data: the fields a wallet should show in the clear, plus a digest
+// over everything else in the body, so no field can change without
+// breaking the signature. The signature travels inside the sealed body.
+
+export interface ManifestSignature {
+  owner: Address;
+  signature: Hex;
+}
+
+export type ManifestVerification =
+  | { status: 'verified'; owner: Address }
+  | { status: 'unsigned' } // Nobody to expect a signature from
+  | { status: 'missing'; reason: string } // The owner has a wallet, but the manifest carries no signature
+  | { status: 'invalid'; reason: string };
+
+// No chainId: a manifest belongs to a wallet, not to a chain
+const MANIFEST_SIGNATURE_DOMAIN = { name: 'Web3 Dropbox', version: '1' } as const;
+
+const MANIFEST_SIGNATURE_TYPES = {
+  FileManifest: [
+    { name: 'fileName', type: 'string' },
+    { name: 'fileSize', type: 'uint256' },
+    { name: 'mimeType', type: 'string' },
+    { name: 'merkleRoot', type: 'string' },
+    { name: 'chunkCount', type: 'uint256' },
+    { name: 'owner', type: 'address' },
+    { name: 'userId', type: 'string' },
+    { name: 'contentDigest', type: 'bytes32' },
+  ],
+} as const;
+
+/**
+ * Typed data for a wallet to sign as the owner of a manifest body
+ */
+export function manifestTypedData(body: ManifestBody, owner: Address) {
+  return {
+    domain: MANIFEST_SIGNATURE_DOMAIN,
+    types: MANIFEST_SIGNATURE_TYPES,
+    primaryType: 'FileManifest' as const,
+    message: {
+      fileName: body.fileName,
+      fileSize: BigInt(body.fileSize),
+      mimeType: body.mimeType,
+      merkleRoot: body.merkleRoot,
+      chunkCount: BigInt(body.chunkCount),
+      owner,
+      userId: body.userId ?? '',
+      contentDigest: keccak256(stringToBytes(canonicalBody(body))),
+    },
+  };
+}
+
+/**
+ * Check the signature of an opened manifest body against the wallet of the
+ * account that claims the file. Once that wallet is known a missing
+ * signature is a failure too, since anyone able to replace the manifest
+ * could have stripped it.
+ */
+export async function verifyManifestSignature(
+  body: ManifestBody,
+  expectedOwner: string | undefined
+): Promise<ManifestVerification> {
+  if (!body.signature) {
+    return expectedOwner
+      ? { status: 'missing', reason: `The manifest carries no signature from the owner's wallet ${expectedOwner}` }
+      : { status: 'unsigned' };
+  }
+
+  const { owner, signature } = body.signature;
+  let signer: Address;
+  try {
+    signer = await recoverTypedDataAddress({ ...manifestTypedData(body, owner), signature });
+  } catch {
+    return { status: 'invalid', reason: 'The signature is malformed' };
+  }
+  if (!isAddressEqual(signer, owner)) {
+    return { status: 'invalid', reason: 'The manifest was changed after it was signed' };
+  }
+  if (!expectedOwner) {
+    return { status: 'invalid', reason: `Signed by ${owner}, but the owner has no linked wallet to check it against` };
+  }
+  if (!isAddressEqual(owner, expectedOwner as Address)) {
+    return { status: 'invalid', reason: `Signed by ${owner}, not by the owner's wallet ${expectedOwner}` };
+  }
+  return { status: 'verified', owner };
+}
+
+// Every body field but the signature, in a fixed order
+function canonicalBody(body: ManifestBody): string {
+  return JSON.stringify([
+    body.fileName,
+    body.fileSize,
+    body.mimeType,
+    body.userId ?? null,
+    body.compression ? [body.compression.codec, body.compression.compressedSize] : null,
+    body.merkleRoot,
+    body.chunkCount,
+    body.chunkHashes,
+    body.erasure ? [body.erasure.dataShards, body.erasure.parityShards, body.erasure.parityHashes] : null,
+    body.encryption,
+    ...(body.encryption === 'aes-gcm-stream'
+      ? [body.noncePrefix, body.chunkSize]
+      : [body.chunkLengths, body.chunkKeys]),
+  ]);
+}
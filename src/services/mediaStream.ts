@@ -0,0 +1,170 @@
+import { readFileRange } from '@/services/fileTransfer';
+import type { ManifestBody } from '@/services/manifest';
+
+// Page side of public/stream-sw.js. The service worker turns media
+// element requests for /stream/<manifestCid> into range messages, and the
+// page answers them from files opened here with their keys. Keys stay in
+// this page; closing a stream forgets its key.
+
+const SERVICE_WORKER_URL = '/stream-sw.js';
+const STREAM_PATH = '/stream/';
+// Largest range answered at once; media elements ask again for the rest
+const MAX_RANGE_BYTES = 4 * 1024 * 1024;
+// How long to wait for the service worker to take control of the page
+const CLAIM_TIMEOUT_MS = 3000;
+
+// Thrown when this page cannot stream through the service worker; callers
+// fall back to decrypting the whole file
+export class MediaStreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaStreamUnavailableError';
+  }
+}
+
+interface OpenStream {
+  body: ManifestBody;
+  key: CryptoKey;
+}
+
+// Request relayed by the service worker
+interface RangeRequest {
+  type: 'media-range';
+  cid: string;
+  range: string;
+}
+
+// Reply posted back on the request's MessagePort
+export type RangeReply =
+  | { ok: true; start: number; end: number; fileSize: number; mimeType: string; data: ArrayBuffer }
+  | { ok: false; status: number; message: string; fileSize?: number };
+
+const openStreams = new Map<string, OpenStream>();
+let registration: Promise<void> | null = null;
+
+/**
+ * Whether this browser can play encrypted media through the service worker
+ */
+export function isMediaStreamingSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Make a decrypted file playable and return the URL to give a media
+ * element. The service worker is registered on first use.
+ */
+export async function openMediaStream(manifestCid: string, body: ManifestBody, key: CryptoKey): Promise<string> {
+  if (!isMediaStreamingSupported()) {
+    throw new MediaStreamUnavailableError('This browser does not support service workers');
+  }
+
+  registration ??= registerServiceWorker().catch(error => {
+    registration = null;
+    throw error;
+  });
+  await registration;
+
+  openStreams.set(manifestCid, { body, key });
+  return `${STREAM_PATH}${encodeURIComponent(manifestCid)}`;
+}
+
+/**
+ * Stop serving a file and drop its key
+ */
+export function closeMediaStream(manifestCid: string): void {
+  openStreams.delete(manifestCid);
+}
+
+/**
+ * Stop serving every open file and drop their keys, e.g. when the vault
+ * locks. Requests already being answered finish; later ones get a 404.
+ */
+export function closeAllMediaStreams(): void {
+  openStreams.clear();
+}
+
+/**
+ * Resolve a Range header against a file size. Open-ended and oversized
+ * ranges are cut to MAX_RANGE_BYTES. Returns null if the range cannot be
+ * satisfied; `end` is exclusive.
+ */
+export function parseRangeHeader(header: string, fileSize: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, fileSize - Number(match[2]));
+    end = fileSize;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? fileSize : Math.min(Number(match[2]) + 1, fileSize);
+  }
+
+  if (start >= fileSize || start >= end) {
+    return null;
+  }
+  return { start, end: Math.min(end, start + MAX_RANGE_BYTES) };
+}
+
+async function registerServiceWorker(): Promise<void> {
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  const ready = await navigator.serviceWorker.ready;
+  if (navigator.serviceWorker.controller) return;
+
+  // A freshly installed worker claims the page once it activates. After a
+  // hard reload the worker is already active and the page starts out
+  // uncontrolled, so the worker is asked to claim it again.
+  const claimed = new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => resolve(false), CLAIM_TIMEOUT_MS);
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      clearTimeout(timer);
+      resolve(true);
+    }, { once: true });
+  });
+  ready.active?.postMessage({ type: 'claim' });
+  if (!(await claimed)) {
+    throw new MediaStreamUnavailableError('The stream service worker did not take control of this page');
+  }
+}
+
+function handleMessage(event: MessageEvent): void {
+  const request = event.data as RangeRequest;
+  const port = event.ports[0];
+  if (request?.type !== 'media-range' || !port) return;
+
+  answerRange(request)
+    .catch((error): RangeReply => {
+      console.error('Failed to serve media range:', error);
+      return { ok: false, status: 502, message: error instanceof Error ? error.message : 'Decryption failed' };
+    })
+    .then(reply => port.postMessage(reply, reply.ok ? [reply.data] : []));
+}
+
+async function answerRange(request: RangeRequest): Promise<RangeReply> {
+  const stream = openStreams.get(request.cid);
+  if (!stream) {
+    return { ok: false, status: 404, message: 'Stream is not open in this page' };
+  }
+
+  const { body, key } = stream;
+  const range = parseRangeHeader(request.range, body.fileSize);
+  if (!range) {
+    return { ok: false, status: 416, message: 'Range not satisfiable', fileSize: body.fileSize };
+  }
+
+  const data = await readFileRange(body, key, range.start, range.end);
+  return {
+    ok: true,
+    start: range.start,
+    end: range.end,
+    fileSize: body.fileSize,
+    mimeType: body.mimeType,
+    data: data.buffer,
+  };
+}
@@ -0,0 +1,141 @@
+// Binary Merkle tree over encrypted chunks, hashed as raw bytes with SHA-256.
+// Leaves and inner nodes use distinct prefixes (as in RFC 6962), and an odd
+// node at the end of a level is promoted unchanged rather than duplicated.
+// Roots and proof nodes are 0x-prefixed 32-byte hex, so they pass straight
+// into Solidity as bytes32; contracts/ChunkMerkle.sol checks the same proofs.
+
+// Everything needed to check that chunk `index` belongs under a root
+export interface MerkleProof {
+  index: number;
+  leafCount: number;
+  siblings: string[];
+}
+
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+
+/**
+ * Hash one chunk into a leaf
+ */
+export async function hashLeaf(chunk: ArrayBuffer | Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const data = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+  const input = new Uint8Array(data.byteLength + 1);
+  input[0] = LEAF_PREFIX;
+  input.set(data, 1);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * Hash two child nodes into their parent
+ */
+export async function hashNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const input = new Uint8Array(65);
+  input[0] = NODE_PREFIX;
+  input.set(left, 1);
+  input.set(right, 33);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * Root of the tree over the given leaf hashes
+ */
+export async function computeMerkleRoot(leaves: Uint8Array[]): Promise<string> {
+  const levels = await buildLevels(leaves);
+  return toBytes32(levels[levels.length - 1][0]);
+}
+
+/**
+ * Sibling path from leaf `index` up to the root
+ */
+export async function createMerkleProof(leaves: Uint8Array[], index: number): Promise<MerkleProof> {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new RangeError(`Leaf ${index} is outside a tree of ${leaves.length} leaves`);
+  }
+
+  const levels = await buildLevels(leaves);
+  const siblings: string[] = [];
+  let position = index;
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position ^ 1;
+    // A promoted node has no sibling at this level
+    if (sibling < level.length) {
+      siblings.push(toBytes32(level[sibling]));
+    }
+    position >>= 1;
+  }
+
+  return { index, leafCount: leaves.length, siblings };
+}
+
+/**
+ * Check a leaf hash against a root using an inclusion proof
+ */
+export async function verifyMerkleProof(
+  leaf: Uint8Array,
+  proof: MerkleProof,
+  root: string
+): Promise<boolean> {
+  const { index, leafCount, siblings } = proof;
+  if (!Number.isInteger(index) || index < 0 || index >= leafCount) {
+    return false;
+  }
+
+  let hash = leaf;
+  let position = index;
+  let width = leafCount;
+  let used = 0;
+  while (width > 1) {
+    if (position % 2 === 1) {
+      if (used >= siblings.length) return false;
+      hash = await hashNode(fromBytes32(siblings[used++]), hash);
+    } else if (position + 1 < width) {
+      if (used >= siblings.length) return false;
+      hash = await hashNode(hash, fromBytes32(siblings[used++]));
+    }
+    position >>= 1;
+    width = (width + 1) >> 1;
+  }
+
+  return used === siblings.length && toBytes32(hash) === root.toLowerCase();
+}
+
+/**
+ * Whether a value is a 0x-prefixed 32-byte hex string
+ */
+export function isBytes32(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-f]{64}$/i.test(value);
+}
+
+export function toBytes32(bytes: Uint8Array): string {
+  return '0x' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromBytes32(hex: string): Uint8Array<ArrayBuffer> {
+  if (!isBytes32(hex)) {
+    throw new Error('Expected a 0x-prefixed 32-byte hex string');
+  }
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = parseInt(hex.slice(2 + i * 2, 4 + i * 2), 16);
+  }
+  return bytes;
+}
+
+// Every level of the tree, leaves first and the root level last
+async function buildLevels(leaves: Uint8Array[]): Promise<Uint8Array[][]> {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels: Uint8Array[][] = [leaves];
+  let level = leaves;
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+    level = next;
+  }
+  return levels;
+}
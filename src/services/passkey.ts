@@ -0,0 +1,122 @@
+import { EncryptionService } from '@/services/encryption';
+import type { PasskeyKeySlot } from '@/services/vault';
+
+// Passkeys as vault keys. Only the WebAuthn PRF extension is used: the
+// authenticator turns a stored salt into a secret that never leaves this
+// page. Nothing is verified by a server, so challenges are just random.
+
+export interface PasskeySecret {
+  credentialId: string; // base64url
+  prfOutput: ArrayBuffer;
+}
+
+const RP_NAME = 'Web3 Dropbox';
+const PRF_SALT_LENGTH = 32;
+
+/**
+ * Whether this browser can create and use passkeys at all. Support for the
+ * PRF extension is only known once a passkey has been created.
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential !== 'undefined';
+}
+
+/**
+ * Create a passkey and evaluate its PRF with a fresh salt. The salt must be
+ * kept beside whatever the secret protects.
+ */
+export async function registerPasskey(user: {
+  id: string;
+  name: string;
+  displayName: string;
+}): Promise<PasskeySecret & { prfSalt: Uint8Array<ArrayBuffer> }> {
+  const prfSalt = crypto.getRandomValues(new Uint8Array(PRF_SALT_LENGTH));
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: RP_NAME },
+      user: {
+        id: new TextEncoder().encode(user.id),
+        name: user.name,
+        displayName: user.displayName,
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 }, // ES256
+        { type: 'public-key', alg: -257 }, // RS256
+      ],
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+      extensions: { prf: { eval: { first: prfSalt } } },
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled');
+  }
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled) {
+    throw new Error('This passkey cannot derive keys (no PRF support)');
+  }
+
+  const credentialId = toBase64Url(credential.rawId);
+  // Some authenticators only evaluate the PRF when signing in, not at creation
+  const first = prf.results?.first;
+  if (first) {
+    return { credentialId, prfOutput: toArrayBuffer(first), prfSalt };
+  }
+  const secret = await evaluatePasskey([{ credentialId, prfSalt: EncryptionService.arrayBufferToBase64(prfSalt.buffer) }]);
+  return { ...secret, prfSalt };
+}
+
+/**
+ * Ask the user for any of the given passkeys and evaluate its PRF with the
+ * salt stored for it
+ */
+export async function evaluatePasskey(
+  slots: Pick<PasskeyKeySlot, 'credentialId' | 'prfSalt'>[]
+): Promise<PasskeySecret> {
+  if (slots.length === 0) {
+    throw new Error('No passkey has been added to this vault');
+  }
+
+  const evalByCredential: Record<string, AuthenticationExtensionsPRFValues> = {};
+  for (const slot of slots) {
+    evalByCredential[slot.credentialId] = { first: EncryptionService.base64ToArrayBuffer(slot.prfSalt) };
+  }
+
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      allowCredentials: slots.map(slot => ({ type: 'public-key', id: fromBase64Url(slot.credentialId) })),
+      userVerification: 'required',
+      extensions: { prf: { evalByCredential } },
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!assertion) {
+    throw new Error('Passkey sign-in was cancelled');
+  }
+  const first = assertion.getClientExtensionResults().prf?.results?.first;
+  if (!first) {
+    throw new Error('This passkey did not return a key (no PRF support)');
+  }
+  return { credentialId: toBase64Url(assertion.rawId), prfOutput: toArrayBuffer(first) };
+}
+
+function toArrayBuffer(source: BufferSource): ArrayBuffer {
+  if (source instanceof ArrayBuffer) {
+    return source;
+  }
+  return new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice().buffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return EncryptionService.arrayBufferToBase64(buffer)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return EncryptionService.base64ToArrayBuffer(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
@@ -0,0 +1,144 @@
+import { gfInverse, gfMul, gfMulAdd } from '@/services/gf256';
+
+// Shamir secret sharing over GF(256), byte by byte: each byte of the secret
+// is the constant term of a random polynomial of degree threshold - 1, and
+// share x holds every polynomial evaluated at x. Any `threshold` shares
+// rebuild the secret; fewer reveal nothing about it.
+
+export interface SecretShare {
+  setId: string; // Hex, shared by every share of one split so sets cannot be mixed
+  threshold: number;
+  index: number; // x coordinate, 1..255
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const SHARE_PREFIX = 'W3DS';
+const SET_ID_BYTES = 4;
+const CHECKSUM_BYTES = 2;
+const MAX_SHARES = 255;
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which rebuild it
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || threshold > count || count > MAX_SHARES) {
+    throw new RangeError(`Need 2 <= threshold <= shares <= ${MAX_SHARES}`);
+  }
+
+  // coefficients[0] is the secret; the rest are random
+  const coefficients = [Uint8Array.from(secret)];
+  for (let i = 1; i < threshold; i++) {
+    coefficients.push(crypto.getRandomValues(new Uint8Array(secret.length)));
+  }
+  const setId = toHex(crypto.getRandomValues(new Uint8Array(SET_ID_BYTES)));
+
+  const shares: SecretShare[] = [];
+  for (let x = 1; x <= count; x++) {
+    // Horner's rule, highest coefficient first
+    const data = Uint8Array.from(coefficients[threshold - 1]);
+    for (let c = threshold - 2; c >= 0; c--) {
+      for (let i = 0; i < data.length; i++) {
+        data[i] = gfMul(data[i], x) ^ coefficients[c][i];
+      }
+    }
+    shares.push({ setId, threshold, index: x, data });
+  }
+
+  coefficients.forEach(row => row.fill(0));
+  return shares;
+}
+
+/**
+ * Rebuild a secret from at least `threshold` shares of the same split
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array<ArrayBuffer> {
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+  const { setId, threshold, data: { length } } = shares[0];
+
+  const unique = new Map<number, SecretShare>();
+  for (const share of shares) {
+    if (share.setId !== setId || share.threshold !== threshold) {
+      throw new Error('Shares come from different recovery sets');
+    }
+    if (share.data.length !== length) {
+      throw new Error('Shares have different lengths');
+    }
+    unique.set(share.index, share);
+  }
+  if (unique.size < threshold) {
+    throw new Error(`Need ${threshold} different shares, got ${unique.size}`);
+  }
+
+  // Lagrange interpolation at x = 0; subtraction is XOR in GF(256)
+  const points = [...unique.values()].slice(0, threshold);
+  const secret = new Uint8Array(length);
+  for (const share of points) {
+    let numerator = 1;
+    let denominator = 1;
+    for (const other of points) {
+      if (other === share) continue;
+      numerator = gfMul(numerator, other.index);
+      denominator = gfMul(denominator, other.index ^ share.index);
+    }
+    gfMulAdd(secret, share.data, gfMul(numerator, gfInverse(denominator)));
+  }
+  return secret;
+}
+
+/**
+ * Printable form of a share: W3DS-<set>-<threshold><index>-<data>-<checksum>,
+ * all hex, so it can be written down or typed back in
+ */
+export async function encodeShare(share: SecretShare): Promise<string> {
+  const body = [
+    SHARE_PREFIX,
+    share.setId,
+    toHex(Uint8Array.of(share.threshold, share.index)),
+    toHex(share.data),
+  ].join('-').toUpperCase();
+  return `${body}-${await checksum(body)}`;
+}
+
+/**
+ * Parse a printable share, ignoring case and whitespace. Typing mistakes
+ * are caught by the checksum.
+ */
+export async function decodeShare(text: string): Promise<SecretShare> {
+  const parts = text.replace(/\s+/g, '').toUpperCase().split('-');
+  if (parts.length !== 5 || parts[0] !== SHARE_PREFIX || !parts.slice(1).every(part => /^[0-9A-F]+$/.test(part))) {
+    throw new Error('Not a recovery share');
+  }
+
+  const [, setId, header, data, check] = parts;
+  if (setId.length !== SET_ID_BYTES * 2 || header.length !== 4 || data.length % 2 !== 0 || data.length === 0) {
+    throw new Error('Recovery share is malformed');
+  }
+  if (await checksum(parts.slice(0, 4).join('-')) !== check) {
+    throw new Error('Recovery share has a typo - its checksum does not match');
+  }
+
+  const [threshold, index] = fromHex(header);
+  if (threshold < 2 || index < 1) {
+    throw new Error('Recovery share is malformed');
+  }
+  return { setId: setId.toLowerCase(), threshold, index, data: fromHex(data) };
+}
+
+async function checksum(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return toHex(new Uint8Array(digest, 0, CHECKSUM_BYTES)).toUpperCase();
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,183 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  writeBatch,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { EncryptionService } from '@/services/encryption';
+import { PUBLIC_PROFILES } from '@/services/authService';
+
+export interface ShareRecipient {
+  uid: string;
+  displayName: string;
+  publicKey: string;
+}
+
+// A file key wrapped for one recipient; the grant alone never reveals the key
+export interface ShareGrant {
+  id: string;
+  ownerUid: string;
+  ownerName: string;
+  recipientUid: string;
+  manifestCid: string;
+  fileName: string;
+  fileSize: number;
+  ephemeralPublicKey: string;
+  wrappedKey: string;
+  createdAt: Timestamp;
+}
+
+class SharingService {
+  // Find a user who has published a sharing key. Only public profiles are
+  // read; other users' profile documents are not readable.
+  async findRecipient(email: string): Promise<ShareRecipient> {
+    try {
+      const profilesRef = collection(db, PUBLIC_PROFILES);
+      const q = query(profilesRef, where('email', '==', email.trim()));
+      const querySnapshot = await getDocs(q);
+
+      if (querySnapshot.empty) {
+        throw new Error('No account found with this email address');
+      }
+
+      const recipient = querySnapshot.docs[0];
+      const data = recipient.data();
+      if (!data.publicKey) {
+        throw new Error('This user has not unlocked a vault yet and cannot receive shared files');
+      }
+
+      return {
+        uid: recipient.id,
+        displayName: data.displayName || email,
+        publicKey: data.publicKey
+      };
+    } catch (error) {
+      console.error('Error finding share recipient:', error);
+      throw error;
+    }
+  }
+
+  // Wallet the owner of shared files has linked, which their manifests must be signed by
+  async findOwnerWallet(ownerUid: string): Promise<string | undefined> {
+    try {
+      const owner = await getDoc(doc(db, PUBLIC_PROFILES, ownerUid));
+      return owner.exists() ? owner.data().walletAddress : undefined;
+    } catch (error) {
+      console.error('Error looking up owner wallet:', error);
+      throw error;
+    }
+  }
+
+  // Wrap the file key for the recipient and record the grant
+  async shareFile(
+    owner: { uid: string; displayName: string },
+    recipient: ShareRecipient,
+    file: { manifestCid: string; fileName: string; fileSize: number },
+    fileKey: CryptoKey
+  ): Promise<void> {
+    try {
+      if (recipient.uid === owner.uid) {
+        throw new Error('You already own this file');
+      }
+
+      const wrapped = await EncryptionService.wrapKeyForRecipient(fileKey, recipient.publicKey);
+
+      await addDoc(collection(db, 'shares'), {
+        ownerUid: owner.uid,
+        ownerName: owner.displayName,
+        recipientUid: recipient.uid,
+        manifestCid: file.manifestCid,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        ephemeralPublicKey: wrapped.ephemeralPublicKey,
+        wrappedKey: wrapped.wrappedKey,
+        createdAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error sharing file:', error);
+      throw error;
+    }
+  }
+
+  // Grants addressed to this user
+  async listSharedWithMe(uid: string): Promise<ShareGrant[]> {
+    try {
+      const q = query(collection(db, 'shares'), where('recipientUid', '==', uid));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(grant => ({ id: grant.id, ...grant.data() }) as ShareGrant);
+    } catch (error) {
+      console.error('Error listing shared files:', error);
+      throw error;
+    }
+  }
+
+  // Grants this owner made for one file
+  async listFileGrants(ownerUid: string, manifestCid: string): Promise<ShareGrant[]> {
+    try {
+      const q = query(
+        collection(db, 'shares'),
+        where('ownerUid', '==', ownerUid),
+        where('manifestCid', '==', manifestCid)
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(grant => ({ id: grant.id, ...grant.data() }) as ShareGrant);
+    } catch (error) {
+      console.error('Error listing file grants:', error);
+      throw error;
+    }
+  }
+
+  // Delete every grant of one file, returning the ids that were removed
+  async revokeFileGrants(ownerUid: string, manifestCid: string): Promise<string[]> {
+    try {
+      const grants = await this.listFileGrants(ownerUid, manifestCid);
+      const batch = writeBatch(db);
+      grants.forEach(grant => batch.delete(doc(db, 'shares', grant.id)));
+      await batch.commit();
+      return grants.map(grant => grant.id);
+    } catch (error) {
+      console.error('Error revoking file grants:', error);
+      throw error;
+    }
+  }
+
+  // Point every grant of one file at a new manifest of the same file key,
+  // returning how many were moved
+  async moveFileGrants(ownerUid: string, fromCid: string, toCid: string): Promise<number> {
+    try {
+      const grants = await this.listFileGrants(ownerUid, fromCid);
+      const batch = writeBatch(db);
+      grants.forEach(grant => batch.update(doc(db, 'shares', grant.id), { manifestCid: toCid }));
+      await batch.commit();
+      return grants.length;
+    } catch (error) {
+      console.error('Error moving file grants:', error);
+      throw error;
+    }
+  }
+
+  // Recover the file key from a grant with the recipient's identity
+  async openGrant(grant: ShareGrant, privateKey: CryptoKey, publicKey: string): Promise<CryptoKey> {
+    try {
+      return await EncryptionService.unwrapKeyFromSender(
+        { ephemeralPublicKey: grant.ephemeralPublicKey, wrappedKey: grant.wrappedKey },
+        privateKey,
+        publicKey
+      );
+    } catch (error) {
+      console.error('Error opening share grant:', error);
+      throw new Error('This shared file key could not be unwrapped with your vault');
+    }
+  }
+}
+
+// Create singleton instance
+export const sharingService = new SharingService();
+export default sharingService;
@@ -0,0 +1,81 @@
+import { storageConfig, StorageBackendKind, StorageConfig } from '@/config/storage';
+
+// Content-addressed block storage. Everything the app stores (encrypted
+// chunks, parity and sealed manifests) goes through one of these, so a
+// deployment can swap the embedded node for a remote one.
+
+export interface StorageStat {
+  cid: string;
+  size: number | null; // Content bytes, when the backend can tell without fetching them
+  pinned: boolean;
+  local: boolean; // Held by this backend, not only reachable through the network
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+
+  // Store bytes as a UnixFS file and pin them, returning the CID
+  put(data: Uint8Array, options?: { name?: string; signal?: AbortSignal }): Promise<string>;
+
+  get(cid: string, options?: { signal?: AbortSignal }): Promise<Uint8Array>;
+
+  // Whether the backend holds the content already, without searching the network
+  has(cid: string): Promise<boolean>;
+
+  // Keep content through garbage collection, fetching any blocks of it
+  // the backend is missing
+  pin(cid: string, options?: { signal?: AbortSignal }): Promise<void>;
+
+  unpin(cid: string): Promise<void>;
+
+  stat(cid: string): Promise<StorageStat>;
+
+  // Unpin content and drop every block of it the backend holds, returning
+  // how many blocks were removed
+  remove(cid: string): Promise<number>;
+}
+
+let backend: Promise<StorageBackend> | null = null;
+
+/**
+ * The backend this deployment is configured for, created on first use
+ */
+export function getStorageBackend(): Promise<StorageBackend> {
+  backend ??= createStorageBackend(storageConfig).catch(error => {
+    backend = null;
+    throw error;
+  });
+  return backend;
+}
+
+/**
+ * Replace the configured backend, e.g. with a memory backend in tests
+ */
+export function setStorageBackend(replacement: StorageBackend): void {
+  backend = Promise.resolve(replacement);
+}
+
+/**
+ * Create a backend of the given kind. Each one is loaded only when chosen,
+ * so unused clients stay out of the bundle.
+ */
+export async function createStorageBackend(config: StorageConfig): Promise<StorageBackend> {
+  switch (config.backend) {
+    case 'helia': {
+      const { HeliaBackend } = await import('@/services/storage/heliaBackend');
+      return new HeliaBackend();
+    }
+    case 'kubo': {
+      const { KuboBackend } = await import('@/services/storage/kuboBackend');
+      return new KuboBackend(config.kuboApiUrl);
+    }
+    case 'w3up': {
+      const { W3upBackend } = await import('@/services/storage/w3upBackend');
+      return W3upBackend.connect(config);
+    }
+    case 'memory': {
+      const { MemoryBackend } = await import('@/services/storage/memoryBackend');
+      return new MemoryBackend();
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { BaseBlockstore } from 'blockstore-core/base';
+import { Key } from 'interface-datastore';
+import type { Blockstore } from 'interface-blockstore';
+import type { Datastore } from 'interface-datastore';
+import type { AbortOptions } from 'interface-store';
+import type { CID } from 'multiformats/cid';
+
+// A blockstore that keeps count of the bytes it holds and of when each block
+// was last used, so the embedded node can be held to a size limit. The index
+// lives in the datastore next to Helia's pins, so it survives reloads along
+// with the blocks it describes.
+
+const USAGE_PREFIX = '/web3-dropbox/block-usage/';
+
+// Reads move a block to the back of the eviction queue at once, but are only
+// written down when the stored time is older than this
+const USED_AT_RESOLUTION = 60 * 60 * 1000;
+
+interface BlockUsage {
+  size: number;
+  usedAt: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class UsageTrackedBlockstore extends BaseBlockstore {
+  private usage = new Map<string, BlockUsage>();
+  private total = 0;
+
+  constructor(private child: Blockstore, private datastore: Datastore) {
+    super();
+  }
+
+  // Load what earlier sessions recorded
+  async open(): Promise<void> {
+    for await (const { key, value } of this.datastore.query({ prefix: USAGE_PREFIX })) {
+      this.track(key.baseNamespace(), JSON.parse(decoder.decode(value)) as BlockUsage);
+    }
+  }
+
+  // Bytes held across all blocks, pinned or not
+  get totalBytes(): number {
+    return this.total;
+  }
+
+  /**
+   * Every block held, least recently used first
+   */
+  evictionOrder(): string[] {
+    return [...this.usage.entries()]
+      .sort(([, a], [, b]) => a.usedAt - b.usedAt)
+      .map(([cid]) => cid);
+  }
+
+  async has(key: CID, options?: AbortOptions): Promise<boolean> {
+    return this.child.has(key, options);
+  }
+
+  async put(key: CID, val: Uint8Array, options?: AbortOptions): Promise<CID> {
+    await this.child.put(key, val, options);
+    await this.record(key.toString(), { size: val.length, usedAt: Date.now() });
+    return key;
+  }
+
+  async get(key: CID, options?: AbortOptions): Promise<Uint8Array> {
+    const block = await this.child.get(key, options);
+
+    const entry = this.usage.get(key.toString());
+    if (entry) {
+      const now = Date.now();
+      const stale = now - entry.usedAt > USED_AT_RESOLUTION;
+      entry.usedAt = now;
+      if (stale) {
+        await this.record(key.toString(), entry);
+      }
+    }
+    return block;
+  }
+
+  async delete(key: CID, options?: AbortOptions): Promise<void> {
+    await this.child.delete(key, options);
+
+    const entry = this.usage.get(key.toString());
+    if (entry) {
+      this.usage.delete(key.toString());
+      this.total -= entry.size;
+      await this.datastore.delete(new Key(USAGE_PREFIX + key.toString()));
+    }
+  }
+
+  getAll(options?: AbortOptions) {
+    return this.child.getAll(options);
+  }
+
+  private async record(cid: string, entry: BlockUsage): Promise<void> {
+    this.track(cid, entry);
+    await this.datastore.put(new Key(USAGE_PREFIX + cid), encoder.encode(JSON.stringify(entry)));
+  }
+
+  private track(cid: string, entry: BlockUsage): void {
+    this.total += entry.size - (this.usage.get(cid)?.size ?? 0);
+    this.usage.set(cid, { ...entry });
+  }
+}
@@ -0,0 +1,212 @@
+import { createHelia, Helia } from 'helia';
+import { unixfs } from '@helia/unixfs';
+import { CID } from 'multiformats/cid';
+import * as dagPb from '@ipld/dag-pb';
+import type { Blockstore } from 'interface-blockstore';
+import type { Datastore } from 'interface-datastore';
+import { storageConfig } from '@/config/storage';
+import type { StorageBackend, StorageStat } from '@/services/storage/backend';
+import { UsageTrackedBlockstore } from '@/services/storage/blockUsage';
+
+// A Helia node embedded in the page. Blocks and pins persist in IndexedDB
+// in the browser and on disk in Node, and the blockstore is held to a size
+// limit by evicting the least recently used blocks that no pin holds.
+
+const IDB_BLOCKSTORE = 'web3-dropbox-blocks';
+const IDB_DATASTORE = 'web3-dropbox-data';
+
+let heliaInstance: Promise<Helia> | null = null;
+let blockUsage: UsageTrackedBlockstore | null = null;
+
+export function getHelia(): Promise<Helia> {
+  heliaInstance ??= startHelia().catch(error => {
+    heliaInstance = null;
+    throw error;
+  });
+  return heliaInstance;
+}
+
+export class HeliaBackend implements StorageBackend {
+  readonly kind = 'helia';
+
+  // Uploads still between import and pin, whose blocks eviction must not see
+  private writes = 0;
+  private eviction: Promise<unknown> | null = null;
+
+  async put(data: Uint8Array, options: { name?: string; signal?: AbortSignal } = {}): Promise<string> {
+    const helia = await getHelia();
+    const fs = unixfs(helia);
+
+    this.writes++;
+    try {
+      const cid = await fs.addFile({
+        path: options.name ?? '',
+        content: data,
+      }, { signal: options.signal });
+      await this.pin(cid.toString());
+
+      return cid.toString();
+    } finally {
+      this.writes--;
+      this.scheduleEviction();
+    }
+  }
+
+  async get(cid: string, options: { signal?: AbortSignal } = {}): Promise<Uint8Array> {
+    const helia = await getHelia();
+    const fs = unixfs(helia);
+
+    const chunks: Uint8Array[] = [];
+    try {
+      for await (const chunk of fs.cat(CID.parse(cid), { signal: options.signal })) {
+        chunks.push(chunk);
+      }
+    } finally {
+      // Fetched blocks are cached unpinned and may have pushed the node over
+      this.scheduleEviction();
+    }
+    return concat(chunks);
+  }
+
+  async has(cid: string): Promise<boolean> {
+    const helia = await getHelia();
+    return helia.blockstore.has(CID.parse(cid));
+  }
+
+  async pin(cid: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    const helia = await getHelia();
+    const root = CID.parse(cid);
+    if (await helia.pins.isPinned(root, options)) return;
+    for await (const pinned of helia.pins.add(root, options)) {
+      void pinned;
+    }
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const helia = await getHelia();
+    const root = CID.parse(cid);
+    if (!(await helia.pins.isPinned(root))) return;
+    for await (const unpinned of helia.pins.rm(root)) {
+      void unpinned;
+    }
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const helia = await getHelia();
+    const root = CID.parse(cid);
+    const local = await helia.blockstore.has(root);
+    const stats = local ? await unixfs(helia).stat(root, { offline: true }) : null;
+    return {
+      cid,
+      size: stats ? Number(stats.size) : null,
+      pinned: await helia.pins.isPinned(root),
+      local,
+    };
+  }
+
+  async remove(cid: string): Promise<number> {
+    const helia = await getHelia();
+    await this.unpin(cid);
+
+    let removed = 0;
+    const pending = [CID.parse(cid)];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (!(await helia.blockstore.has(next))) continue;
+      // Larger files are a tree of dag-pb nodes over raw leaves
+      if (next.code === dagPb.code) {
+        const node = dagPb.decode(await helia.blockstore.get(next));
+        pending.push(...node.Links.map(link => link.Hash));
+      }
+      await helia.blockstore.delete(next);
+      removed++;
+    }
+    return removed;
+  }
+
+  // Evict once nothing is mid-upload, one pass at a time
+  private scheduleEviction(): void {
+    if (this.writes > 0 || this.eviction) return;
+    this.eviction = evictUnpinned(storageConfig.heliaMaxBytes)
+      .catch(error => console.error('Error evicting cached blocks:', error))
+      .finally(() => {
+        this.eviction = null;
+      });
+  }
+}
+
+/**
+ * Drop the least recently used unpinned blocks until the blockstore fits in
+ * maxBytes. Pinned blocks, which include every block of the user's own
+ * uploads, are never evicted, so pins alone may keep the node over the limit.
+ */
+export async function evictUnpinned(maxBytes: number): Promise<number> {
+  const helia = await getHelia();
+  if (!blockUsage || blockUsage.totalBytes <= maxBytes) return 0;
+
+  let evicted = 0;
+  for (const cid of blockUsage.evictionOrder()) {
+    if (blockUsage.totalBytes <= maxBytes) break;
+    const block = CID.parse(cid);
+    if (await helia.pins.isPinned(block)) continue;
+    try {
+      // Helia checks the pin again under its write lock
+      await helia.blockstore.delete(block);
+      evicted++;
+    } catch (error) {
+      console.error(`Error evicting block ${cid}:`, error);
+    }
+  }
+  return evicted;
+}
+
+async function startHelia(): Promise<Helia> {
+  const { blockstore, datastore } = await openStores();
+  await datastore.open();
+  await blockstore.open();
+
+  blockUsage = new UsageTrackedBlockstore(blockstore, datastore);
+  await blockUsage.open();
+
+  const helia = await createHelia({ blockstore: blockUsage, datastore });
+  void evictUnpinned(storageConfig.heliaMaxBytes).catch(error => {
+    console.error('Error evicting cached blocks:', error);
+  });
+  return helia;
+}
+
+// IndexedDB in the browser, the filesystem in Node. The filesystem stores
+// are kept out of the browser bundle.
+async function openStores(): Promise<{
+  blockstore: Blockstore & { open(): Promise<void> };
+  datastore: Datastore & { open(): Promise<void> };
+}> {
+  if (typeof indexedDB !== 'undefined') {
+    const { IDBBlockstore } = await import('blockstore-idb');
+    const { IDBDatastore } = await import('datastore-idb');
+    return {
+      blockstore: new IDBBlockstore(IDB_BLOCKSTORE),
+      datastore: new IDBDatastore(IDB_DATASTORE),
+    };
+  }
+
+  const { FsBlockstore } = await import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'blockstore-fs');
+  const { FsDatastore } = await import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'datastore-fs');
+  return {
+    blockstore: new FsBlockstore(`${storageConfig.heliaRepoPath}/blocks`),
+    datastore: new FsDatastore(`${storageConfig.heliaRepoPath}/datastore`),
+  };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,106 @@
+import { create, CID, IPFSHTTPClient } from 'ipfs-http-client';
+import type { StorageBackend, StorageStat } from '@/services/storage/backend';
+
+// A Kubo node reached through its RPC API. The node must allow this origin
+// in API.HTTPHeaders.Access-Control-Allow-Origin.
+
+// Answer from the node's own repo instead of searching the network
+const OFFLINE = { searchParams: new URLSearchParams({ offline: 'true' }) };
+
+export class KuboBackend implements StorageBackend {
+  readonly kind = 'kubo';
+  private client: IPFSHTTPClient;
+
+  constructor(apiUrl: string) {
+    this.client = create({ url: apiUrl });
+  }
+
+  async put(data: Uint8Array, options: { name?: string; signal?: AbortSignal } = {}): Promise<string> {
+    // CIDv1 with raw leaves, the layout the embedded node produces
+    const { cid } = await this.client.add(data, {
+      cidVersion: 1,
+      rawLeaves: true,
+      pin: true,
+      signal: options.signal,
+    });
+    return cid.toString();
+  }
+
+  async get(cid: string, options: { signal?: AbortSignal } = {}): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of this.client.cat(CID.parse(cid), { signal: options.signal })) {
+      chunks.push(chunk);
+    }
+
+    const result = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+
+  async has(cid: string): Promise<boolean> {
+    try {
+      await this.client.block.stat(CID.parse(cid), OFFLINE);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async pin(cid: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    await this.client.pin.add(CID.parse(cid), options);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    if (await this.isPinned(cid)) {
+      await this.client.pin.rm(CID.parse(cid));
+    }
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const local = await this.has(cid);
+    const stats = local ? await this.client.files.stat(`/ipfs/${cid}`, OFFLINE) : null;
+    return {
+      cid,
+      size: stats ? stats.size : null,
+      pinned: await this.isPinned(cid),
+      local,
+    };
+  }
+
+  async remove(cid: string): Promise<number> {
+    await this.unpin(cid);
+    if (!(await this.has(cid))) return 0;
+
+    // Every block below the root that the repo holds, then the root itself
+    const blocks: CID[] = [];
+    for await (const ref of this.client.refs(CID.parse(cid), { recursive: true, unique: true, ...OFFLINE })) {
+      if (!ref.err) {
+        blocks.push(CID.parse(ref.ref));
+      }
+    }
+    blocks.push(CID.parse(cid));
+
+    let removed = 0;
+    for await (const result of this.client.block.rm(blocks, { force: true })) {
+      if (!result.error) removed++;
+    }
+    return removed;
+  }
+
+  private async isPinned(cid: string): Promise<boolean> {
+    try {
+      for await (const pin of this.client.pin.ls({ paths: CID.parse(cid), ...OFFLINE })) {
+        void pin;
+        return true;
+      }
+      return false;
+    } catch {
+      // Kubo answers "not pinned" with an error
+      return false;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { create, Client } from '@storacha/client';
+import { extract } from '@storacha/client/delegation';
+import { CID } from 'multiformats/cid';
+import type { StorageConfig } from '@/config/storage';
+import type { StorageBackend, StorageStat } from '@/services/storage/backend';
+
+// Storacha (w3up) storage. Uploads go to the deployment's space through a
+// delegation the deployment issues to this browser's agent; reads go
+// through an IPFS gateway. Gateway responses are not checked against the
+// CID here: every chunk is authenticated by AES-GCM and the Merkle root
+// when it is decrypted, and manifests by their own AES-GCM seal.
+
+export class W3upBackend implements StorageBackend {
+  readonly kind = 'w3up';
+
+  private constructor(private client: Client, private gatewayUrl: string) {}
+
+  /**
+   * Create the agent, or load the one kept in IndexedDB, and make sure it
+   * may upload to the configured space
+   */
+  static async connect(config: StorageConfig): Promise<W3upBackend> {
+    if (!config.w3upSpace) {
+      throw new Error('NEXT_PUBLIC_W3UP_SPACE must name the space to upload to');
+    }
+    const client = await create();
+    const space = config.w3upSpace as `did:key:${string}`;
+
+    if (!client.spaces().some(known => known.did() === space)) {
+      if (!config.w3upDelegationUrl) {
+        throw new Error('NEXT_PUBLIC_W3UP_DELEGATION_URL must be set to get access to the space');
+      }
+      const response = await fetch(config.w3upDelegationUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ audience: client.did(), space }),
+      });
+      if (!response.ok) {
+        throw new Error(`Space delegation request failed (${response.status})`);
+      }
+      const delegation = await extract(new Uint8Array(await response.arrayBuffer()));
+      if (!delegation.ok) {
+        throw new Error('Space delegation could not be read');
+      }
+      await client.addSpace(delegation.ok);
+    }
+    await client.setCurrentSpace(space);
+
+    return new W3upBackend(client, config.gatewayUrl);
+  }
+
+  async put(data: Uint8Array, options: { name?: string; signal?: AbortSignal } = {}): Promise<string> {
+    const blob = new Blob([Uint8Array.from(data)]);
+    const cid = await this.client.uploadFile(blob, { signal: options.signal });
+    return cid.toString();
+  }
+
+  async get(cid: string, options: { signal?: AbortSignal } = {}): Promise<Uint8Array> {
+    const response = await fetch(`${this.gatewayUrl.replace(/\/?$/, '/')}${cid}`, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Gateway returned ${response.status} for ${cid}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  // Whether the content is an upload in the space
+  async has(cid: string): Promise<boolean> {
+    try {
+      await this.client.capability.upload.get(CID.parse(cid));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Uploads stay stored until removed; content uploaded elsewhere cannot be added
+  async pin(cid: string): Promise<void> {
+    if (!(await this.has(cid))) {
+      throw new Error('w3up can only keep content that was uploaded through it');
+    }
+  }
+
+  // Drops the upload from the space; its shards stay until removed
+  async unpin(cid: string): Promise<void> {
+    if (await this.has(cid)) {
+      await this.client.capability.upload.remove(CID.parse(cid));
+    }
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const stored = await this.has(cid);
+    return { cid, size: null, pinned: stored, local: stored };
+  }
+
+  // Removes the upload and the shards that hold its blocks
+  async remove(cid: string): Promise<number> {
+    let upload;
+    try {
+      upload = await this.client.capability.upload.get(CID.parse(cid));
+    } catch {
+      return 0;
+    }
+    await this.client.remove(CID.parse(cid), { shards: true });
+    return upload.shards?.length ?? 0;
+  }
+}
@@ -0,0 +1,199 @@
+// Runs chunk uploads and downloads a few at a time. Each transfer is retried
+// with exponential backoff before it counts as failed, results come back in
+// the order their inputs went in, and progress over everything one
+// scheduler runs is reported as a single total.
+
+export interface TransferPolicy {
+  concurrency: number; // Transfers in flight at once
+  retries: number; // Further attempts after a transfer first fails
+  baseDelayMs: number; // Wait before the first retry, doubled for each one after
+  maxDelayMs: number;
+}
+
+// Set per deployment through the environment. A bad value falls back to the
+// built-in one with a warning rather than failing every import of this module.
+export const DEFAULT_TRANSFER: TransferPolicy = {
+  concurrency: readCount('NEXT_PUBLIC_TRANSFER_CONCURRENCY', process.env.NEXT_PUBLIC_TRANSFER_CONCURRENCY, 4, 1),
+  retries: readCount('NEXT_PUBLIC_TRANSFER_RETRIES', process.env.NEXT_PUBLIC_TRANSFER_RETRIES, 3, 0),
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+export interface TransferProgress {
+  completed: number;
+  failed: number; // Gave up on after the last retry
+  total: number; // Transfers expected or handed over so far, whichever is more
+  active: number;
+  retries: number; // Attempts repeated after a failure
+  bytes: number; // Moved by completed transfers
+}
+
+export interface TransferOptions extends Partial<TransferPolicy> {
+  signal?: AbortSignal; // Stops queued transfers and those in flight
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Check a transfer policy, returning a clean copy
+ */
+export function validateTransferPolicy(policy: TransferPolicy): TransferPolicy {
+  const { concurrency, retries, baseDelayMs, maxDelayMs } = policy;
+  if (!Number.isSafeInteger(concurrency) || concurrency < 1) {
+    throw new Error('Transfers need a concurrency of at least one');
+  }
+  if (!Number.isSafeInteger(retries) || retries < 0) {
+    throw new Error('Transfer retries must be zero or more');
+  }
+  if (!(baseDelayMs >= 0 && maxDelayMs >= baseDelayMs)) {
+    throw new Error('Retry delays must be non-negative with the maximum at least the base');
+  }
+  return { concurrency, retries, baseDelayMs, maxDelayMs };
+}
+
+/**
+ * Share of the transfers done, as a whole percentage
+ */
+export function transferPercent(progress: TransferProgress): number {
+  return progress.total > 0 ? Math.round(progress.completed / progress.total * 100) : 0;
+}
+
+export class TransferScheduler {
+  readonly signal: AbortSignal;
+  private policy: TransferPolicy;
+  private onProgress?: (progress: TransferProgress) => void;
+  private waiting: (() => void)[] = [];
+  private expected = 0;
+  private queued = 0;
+  private progress: Omit<TransferProgress, 'total'> = {
+    completed: 0,
+    failed: 0,
+    active: 0,
+    retries: 0,
+    bytes: 0,
+  };
+
+  constructor(options: TransferOptions = {}) {
+    const { signal, onProgress, ...policy } = options;
+    this.policy = validateTransferPolicy({ ...DEFAULT_TRANSFER, ...policy });
+    this.signal = signal ?? new AbortController().signal;
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Announce transfers that are coming, so the total is right before they
+   * are all handed over
+   */
+  expect(count: number): void {
+    this.expected += count;
+    this.report();
+  }
+
+  /**
+   * Run one transfer once a slot is free, retrying it with backoff. The
+   * transfer is handed the scheduler's signal. Errors retryable rejects,
+   * and any error after the signal aborts, are thrown at once.
+   */
+  async run<T>(
+    transfer: (signal: AbortSignal) => Promise<T>,
+    options: { bytes?: (result: T) => number; retryable?: (error: unknown) => boolean } = {}
+  ): Promise<T> {
+    const { bytes, retryable = () => true } = options;
+    this.queued++;
+    this.report();
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      try {
+        this.signal.throwIfAborted();
+        const result = await transfer(this.signal);
+        this.progress.completed++;
+        this.progress.bytes += bytes?.(result) ?? 0;
+        return result;
+      } catch (error) {
+        if (attempt >= this.policy.retries || this.signal.aborted || !retryable(error)) {
+          this.progress.failed++;
+          throw error;
+        }
+        this.progress.retries++;
+      } finally {
+        this.release();
+        this.report();
+      }
+      await sleep(this.backoff(attempt), this.signal);
+    }
+  }
+
+  /**
+   * Apply task to each item of source, starting the next ones while earlier
+   * results wait to be consumed, and yield the results in source order. At
+   * most `concurrency` items are taken ahead of the consumer.
+   */
+  async *map<T, R>(
+    source: Iterable<T> | AsyncIterable<T>,
+    task: (item: T, index: number) => Promise<R>
+  ): AsyncGenerator<R> {
+    const pending: Promise<R>[] = [];
+    let index = 0;
+
+    for await (const item of source) {
+      const result = task(item, index++);
+      // Rejections are raised when their turn comes, not as unhandled
+      result.catch(() => {});
+      pending.push(result);
+      if (pending.length >= this.policy.concurrency) {
+        yield await pending.shift()!;
+      }
+    }
+    while (pending.length > 0) {
+      yield await pending.shift()!;
+    }
+  }
+
+  // Jitter keeps transfers that failed together from retrying together
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return ceiling / 2 + Math.random() * ceiling / 2;
+  }
+
+  private async acquire(): Promise<void> {
+    while (this.progress.active >= this.policy.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.progress.active++;
+    this.report();
+  }
+
+  private release(): void {
+    this.progress.active--;
+    this.waiting.shift()?.();
+  }
+
+  private report(): void {
+    this.onProgress?.({ ...this.progress, total: Math.max(this.expected, this.queued) });
+  }
+}
+
+function readCount(name: string, value: string | undefined, fallback: number, min: number): number {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (value.trim() === '' || !Number.isSafeInteger(count) || count < min) {
+    console.warn(`Ignoring ${name}="${value}": expected a whole number of at least ${min}, using ${fallback}`);
+    return fallback;
+  }
+  return count;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,607 @@
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { EncryptionService } from '@/services/encryption';
+import { CURRENT_KDF, LEGACY_KDF, KdfParams, isCurrentKdf, validateKdfParams } from '@/services/kdf';
+import { SecretShare, combineShares, splitSecret } from '@/services/shamir';
+
+// Master key wrapped under a password-derived key
+export interface PasswordKeySlot {
+  type: 'password';
+  salt: string;
+  kdf?: KdfParams; // Absent on slots created before parameters were recorded
+  iv: string;
+  wrappedKey: string;
+}
+
+// Master key derived from a wallet signature, or wrapped under one when
+// the vault was created some other way
+export interface WalletKeySlot {
+  type: 'wallet';
+  address: string;
+  iv?: string;
+  wrappedKey?: string;
+}
+
+// Master key wrapped under a secret from a passkey's PRF extension
+export interface PasskeyKeySlot {
+  type: 'passkey';
+  credentialId: string; // base64url, as WebAuthn reports it
+  prfSalt: string;
+  iv: string;
+  wrappedKey: string;
+}
+
+export type VaultKeySlot = PasswordKeySlot | WalletKeySlot | PasskeyKeySlot;
+
+// Key pair others share files to; the private half is encrypted under the master key
+export interface VaultIdentity {
+  publicKey: string;
+  iv: string;
+  wrappedPrivateKey: string;
+}
+
+// Holder of one share of the master key
+export type RecoveryGuardian =
+  | { type: 'account'; index: number; uid: string; displayName: string } // Sealed to their sharing key
+  | { type: 'printed'; index: number };
+
+// Who can rebuild the master key together; the shares themselves are never stored here
+export interface VaultRecoverySetup {
+  setId: string;
+  threshold: number;
+  guardians: RecoveryGuardian[];
+  createdAt: number;
+}
+
+// Persisted vault; only ever holds wrapped copies of the master key
+export interface VaultRecord {
+  version: 1;
+  keyCheck: string;
+  slots: VaultKeySlot[];
+  identity?: VaultIdentity;
+  recovery?: VaultRecoverySetup;
+  createdAt: number;
+}
+
+// File key wrapped by the vault, as written into file metadata
+export interface WrappedFileKey {
+  alg: 'AES-KW';
+  wrappedKey: string;
+}
+
+interface VaultSession {
+  masterKeyBytes: Uint8Array<ArrayBuffer>;
+  wrappingKey: CryptoKey;
+}
+
+const MASTER_KEY_LENGTH = 32;
+// BIP39 encodes 32 bytes of entropy plus an 8-bit checksum as 24 words
+export const RECOVERY_PHRASE_WORDS = 24;
+const LOCAL_STORAGE_PREFIX = 'web3-dropbox-vault:';
+
+// HKDF info labels keep each derived key independent of the others
+const WRAPPING_KEY_INFO = 'web3-dropbox/vault/file-key-wrap/v1';
+const KEY_CHECK_INFO = 'web3-dropbox/vault/key-check/v1';
+const WALLET_MASTER_INFO = 'web3-dropbox/wallet/vault-master/v1';
+const IDENTITY_WRAP_INFO = 'web3-dropbox/vault/identity-wrap/v1';
+const CONVERGENCE_INFO = 'web3-dropbox/vault/convergence/v1';
+const PASSKEY_KEY_INFO = 'web3-dropbox/vault/passkey/v1';
+
+// Find the slot that lets a given wallet unlock the vault
+export function findWalletSlot(record: VaultRecord, address: string): WalletKeySlot | undefined {
+  return record.slots.find(
+    (s): s is WalletKeySlot => s.type === 'wallet' && s.address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+// Slots that let a passkey unlock the vault
+export function findPasskeySlots(record: VaultRecord): PasskeyKeySlot[] {
+  return record.slots.filter((s): s is PasskeyKeySlot => s.type === 'passkey');
+}
+
+class VaultService {
+  private session: VaultSession | null = null;
+  // Keys of password-protected files opened this session, by manifest CID
+  private fileKeys = new Map<string, CryptoKey>();
+  private listeners: ((unlocked: boolean) => void)[] = [];
+
+  // Whether the master key is currently held in memory
+  isUnlocked(): boolean {
+    return this.session !== null;
+  }
+
+  // Be told whenever the vault locks or unlocks; returns an unsubscribe function
+  subscribe(listener: (unlocked: boolean) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Create a new vault with a random master key protected by a password
+  async createVault(password: string): Promise<VaultRecord> {
+    const masterKeyBytes = crypto.getRandomValues(new Uint8Array(MASTER_KEY_LENGTH));
+
+    const record: VaultRecord = {
+      version: 1,
+      keyCheck: await this.computeKeyCheck(masterKeyBytes),
+      slots: [await this.createPasswordSlot(masterKeyBytes, password)],
+      createdAt: Date.now()
+    };
+
+    await this.openSession(masterKeyBytes);
+    return record;
+  }
+
+  // Create a vault whose master key is derived from a wallet signature, so the
+  // same wallet recovers it on any device
+  async createVaultFromWallet(address: string, signature: string): Promise<VaultRecord> {
+    const masterKeyBytes = new Uint8Array(
+      await EncryptionService.deriveBitsFromWalletSignature(signature, address, WALLET_MASTER_INFO)
+    );
+
+    const record: VaultRecord = {
+      version: 1,
+      keyCheck: await this.computeKeyCheck(masterKeyBytes),
+      slots: [{ type: 'wallet', address: address.toLowerCase() }],
+      createdAt: Date.now()
+    };
+
+    await this.openSession(masterKeyBytes);
+    return record;
+  }
+
+  // Unlock an existing vault with its password. Returns the record with the
+  // password slot re-wrapped if it used outdated KDF parameters.
+  async unlockWithPassword(record: VaultRecord, password: string): Promise<VaultRecord> {
+    const slot = record.slots.find((s): s is PasswordKeySlot => s.type === 'password');
+    if (!slot) {
+      throw new Error('This vault has no password unlock');
+    }
+
+    let masterKeyBytes: ArrayBuffer;
+    try {
+      const salt = new Uint8Array(EncryptionService.base64ToArrayBuffer(slot.salt));
+      const iv = new Uint8Array(EncryptionService.base64ToArrayBuffer(slot.iv));
+      const kdf = slot.kdf ? validateKdfParams(slot.kdf) : LEGACY_KDF;
+      const kek = await EncryptionService.deriveKeyFromPassword(password, salt, kdf);
+      masterKeyBytes = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv },
+        kek,
+        EncryptionService.base64ToArrayBuffer(slot.wrappedKey)
+      );
+    } catch {
+      throw new Error('Incorrect vault password');
+    }
+
+    await this.openVerifiedSession(record, new Uint8Array(masterKeyBytes));
+
+    if (slot.kdf && isCurrentKdf(slot.kdf)) {
+      return record;
+    }
+    const upgraded = await this.createPasswordSlot(new Uint8Array(masterKeyBytes), password);
+    return { ...record, slots: record.slots.map(s => (s === slot ? upgraded : s)) };
+  }
+
+  // Unlock an existing vault with a wallet signature over walletKeyMessage
+  async unlockWithWallet(record: VaultRecord, address: string, signature: string): Promise<void> {
+    const slot = findWalletSlot(record, address);
+    if (!slot) {
+      throw new Error('This wallet cannot unlock the vault');
+    }
+
+    const derived = new Uint8Array(
+      await EncryptionService.deriveBitsFromWalletSignature(signature, address, WALLET_MASTER_INFO)
+    );
+    if (!slot.wrappedKey || !slot.iv) {
+      await this.openVerifiedSession(record, derived);
+      return;
+    }
+
+    let masterKeyBytes: ArrayBuffer;
+    try {
+      const kek = await crypto.subtle.importKey('raw', derived, 'AES-GCM', false, ['decrypt']);
+      masterKeyBytes = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(EncryptionService.base64ToArrayBuffer(slot.iv)) },
+        kek,
+        EncryptionService.base64ToArrayBuffer(slot.wrappedKey)
+      );
+    } catch {
+      throw new Error('Wallet signature does not unlock this vault');
+    }
+    await this.openVerifiedSession(record, new Uint8Array(masterKeyBytes));
+  }
+
+  // Unlock an existing vault with the PRF output of one of its passkeys
+  async unlockWithPasskey(record: VaultRecord, credentialId: string, prfOutput: BufferSource): Promise<void> {
+    const slot = findPasskeySlots(record).find(s => s.credentialId === credentialId);
+    if (!slot) {
+      throw new Error('This passkey cannot unlock the vault');
+    }
+
+    let masterKeyBytes: ArrayBuffer;
+    try {
+      masterKeyBytes = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(EncryptionService.base64ToArrayBuffer(slot.iv)) },
+        await this.derivePasskeyKek(prfOutput, ['decrypt']),
+        EncryptionService.base64ToArrayBuffer(slot.wrappedKey)
+      );
+    } catch {
+      throw new Error('Passkey does not unlock this vault');
+    }
+    await this.openVerifiedSession(record, new Uint8Array(masterKeyBytes));
+  }
+
+  // Let a passkey unlock the currently open vault. prfSalt is what the PRF
+  // was evaluated with and must be passed again on every unlock.
+  async addPasskeySlot(
+    record: VaultRecord,
+    credentialId: string,
+    prfSalt: Uint8Array<ArrayBuffer>,
+    prfOutput: BufferSource
+  ): Promise<VaultRecord> {
+    const { masterKeyBytes } = this.requireSession();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappedKey = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.derivePasskeyKek(prfOutput, ['encrypt']),
+      masterKeyBytes
+    );
+
+    const slot: PasskeyKeySlot = {
+      type: 'passkey',
+      credentialId,
+      prfSalt: EncryptionService.arrayBufferToBase64(prfSalt.buffer),
+      iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+      wrappedKey: EncryptionService.arrayBufferToBase64(wrappedKey)
+    };
+    return {
+      ...record,
+      slots: [...record.slots.filter(s => !(s.type === 'passkey' && s.credentialId === credentialId)), slot]
+    };
+  }
+
+  // Let a wallet unlock the currently open vault as well
+  async addWalletSlot(record: VaultRecord, address: string, signature: string): Promise<VaultRecord> {
+    const { masterKeyBytes } = this.requireSession();
+    const derived = await EncryptionService.deriveBitsFromWalletSignature(signature, address, WALLET_MASTER_INFO);
+    const kek = await crypto.subtle.importKey('raw', derived, 'AES-GCM', false, ['encrypt']);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, kek, masterKeyBytes);
+
+    const slot: WalletKeySlot = {
+      type: 'wallet',
+      address: address.toLowerCase(),
+      iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+      wrappedKey: EncryptionService.arrayBufferToBase64(wrappedKey)
+    };
+    return {
+      ...record,
+      slots: [...record.slots.filter(s => !(s.type === 'wallet' && s.address === slot.address)), slot]
+    };
+  }
+
+  // The open vault's master key as a BIP39 word list. Anyone holding it
+  // can open the vault, so it is only shown once, when the vault is created.
+  getRecoveryPhrase(): string[] {
+    const { masterKeyBytes } = this.requireSession();
+    return entropyToMnemonic(masterKeyBytes, wordlist).split(' ');
+  }
+
+  // Rebuild the master key from its recovery phrase and protect it with a
+  // new password. Given the existing record, the phrase must pass its key
+  // check and the wallet slots and sharing identity are kept; without one,
+  // a fresh record is built around the recovered key.
+  async recoverWithPhrase(phrase: string, password: string, record?: VaultRecord | null): Promise<VaultRecord> {
+    const words = normalizeRecoveryPhrase(phrase);
+    if (words.length !== RECOVERY_PHRASE_WORDS || !validateMnemonic(words.join(' '), wordlist)) {
+      throw new Error('Recovery phrase is not valid - check the words and their order');
+    }
+    const masterKeyBytes = new Uint8Array(mnemonicToEntropy(words.join(' '), wordlist));
+    return this.restoreMasterKey(masterKeyBytes, password, record, 'Recovery phrase does not belong to this vault');
+  }
+
+  // Split the open vault's master key into `count` shares, any `threshold`
+  // of which rebuild it
+  splitMasterKey(threshold: number, count: number): SecretShare[] {
+    const { masterKeyBytes } = this.requireSession();
+    return splitSecret(masterKeyBytes, threshold, count);
+  }
+
+  // Rebuild the master key from guardian shares, then protect it with a new
+  // password the same way recoverWithPhrase does
+  async recoverWithShares(shares: SecretShare[], password: string, record?: VaultRecord | null): Promise<VaultRecord> {
+    const masterKeyBytes = combineShares(shares);
+    if (masterKeyBytes.length !== MASTER_KEY_LENGTH) {
+      throw new Error('These shares do not hold a vault key');
+    }
+    return this.restoreMasterKey(masterKeyBytes, password, record, 'These shares do not rebuild this vault\'s key');
+  }
+
+  // Drop the master key, and every file key opened with it, from memory
+  lock(): void {
+    const wasUnlocked = this.session !== null;
+    this.session = null;
+    this.fileKeys.clear();
+    if (wasUnlocked) {
+      this.notify();
+    }
+  }
+
+  // Keep a password-protected file's key until the vault locks, so the
+  // password is asked for once per session
+  rememberFileKey(manifestCid: string, key: CryptoKey): void {
+    this.fileKeys.set(manifestCid, key);
+  }
+
+  getRememberedFileKey(manifestCid: string): CryptoKey | undefined {
+    return this.fileKeys.get(manifestCid);
+  }
+
+  // Drop a remembered key before the vault locks, e.g. when its file is deleted
+  forgetFileKey(manifestCid: string): boolean {
+    return this.fileKeys.delete(manifestCid);
+  }
+
+  // Wrap a file key so only this vault can recover it
+  async wrapFileKey(fileKey: CryptoKey): Promise<WrappedFileKey> {
+    const { wrappingKey } = this.requireSession();
+    const wrapped = await crypto.subtle.wrapKey('raw', fileKey, wrappingKey, 'AES-KW');
+    return {
+      alg: 'AES-KW',
+      wrappedKey: EncryptionService.arrayBufferToBase64(wrapped)
+    };
+  }
+
+  // Recover a file key wrapped by this vault
+  async unwrapFileKey(wrapped: WrappedFileKey): Promise<CryptoKey> {
+    const { wrappingKey } = this.requireSession();
+    try {
+      return await unwrapAesKey(wrapped, wrappingKey, { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+    } catch {
+      throw new Error('File key was not wrapped by this vault');
+    }
+  }
+
+  // Wrap a file key under a fresh key of its own, which this vault wraps in
+  // turn. The file key's wrapping can go into public metadata; the per-file
+  // key belongs in a record that can be deleted, and deleting it shreds the
+  // file however many copies of that metadata exist.
+  async wrapFileKeyForRecord(fileKey: CryptoKey): Promise<{ wrappedKey: WrappedFileKey; recordKey: WrappedFileKey }> {
+    const perFileKey = await crypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, true, ['wrapKey', 'unwrapKey']);
+    const wrapped = await crypto.subtle.wrapKey('raw', fileKey, perFileKey, 'AES-KW');
+    return {
+      wrappedKey: { alg: 'AES-KW', wrappedKey: EncryptionService.arrayBufferToBase64(wrapped) },
+      recordKey: await this.wrapFileKey(perFileKey)
+    };
+  }
+
+  // Recover a file key wrapped by wrapFileKeyForRecord
+  async unwrapFileKeyFromRecord(wrapped: WrappedFileKey, recordKey: WrappedFileKey): Promise<CryptoKey> {
+    const { wrappingKey } = this.requireSession();
+    let perFileKey: CryptoKey;
+    try {
+      perFileKey = await unwrapAesKey(recordKey, wrappingKey, 'AES-KW', ['unwrapKey']);
+    } catch {
+      throw new Error('File key record was not wrapped by this vault');
+    }
+    try {
+      return await unwrapAesKey(wrapped, perFileKey, { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+    } catch {
+      throw new Error('File key does not match its key record');
+    }
+  }
+
+  // Give the open vault a key pair other users can share files to
+  async createIdentity(record: VaultRecord): Promise<VaultRecord> {
+    const keyPair = await EncryptionService.generateSharingKeyPair();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappedPrivateKey = await crypto.subtle.wrapKey(
+      'pkcs8',
+      keyPair.privateKey,
+      await this.deriveIdentityWrappingKey(),
+      { name: 'AES-GCM', iv }
+    );
+
+    return {
+      ...record,
+      identity: {
+        publicKey: await EncryptionService.exportPublicKey(keyPair.publicKey),
+        iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+        wrappedPrivateKey: EncryptionService.arrayBufferToBase64(wrappedPrivateKey)
+      }
+    };
+  }
+
+  // Recover the private sharing key of the open vault
+  async getIdentityPrivateKey(identity: VaultIdentity): Promise<CryptoKey> {
+    try {
+      return await crypto.subtle.unwrapKey(
+        'pkcs8',
+        EncryptionService.base64ToArrayBuffer(identity.wrappedPrivateKey),
+        await this.deriveIdentityWrappingKey(),
+        { name: 'AES-GCM', iv: new Uint8Array(EncryptionService.base64ToArrayBuffer(identity.iv)) },
+        { name: 'ECDH', namedCurve: 'P-256' },
+        false,
+        ['deriveBits']
+      );
+    } catch {
+      throw new Error('Sharing identity does not belong to this vault');
+    }
+  }
+
+  // HMAC key that turns chunk contents into chunk keys. It never leaves the
+  // vault, so only this vault's uploads deduplicate against each other.
+  async getConvergenceKey(): Promise<CryptoKey> {
+    const { masterKeyBytes } = this.requireSession();
+    return await crypto.subtle.deriveKey(
+      this.hkdfParams(CONVERGENCE_INFO),
+      await this.importMasterKey(masterKeyBytes),
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    );
+  }
+
+  private async restoreMasterKey(
+    masterKeyBytes: Uint8Array<ArrayBuffer>,
+    password: string,
+    record: VaultRecord | null | undefined,
+    mismatchMessage: string
+  ): Promise<VaultRecord> {
+    const slot = await this.createPasswordSlot(masterKeyBytes, password);
+
+    if (record) {
+      try {
+        await this.openVerifiedSession(record, masterKeyBytes);
+      } catch {
+        throw new Error(mismatchMessage);
+      }
+      return { ...record, slots: [...record.slots.filter(s => s.type !== 'password'), slot] };
+    }
+
+    await this.openSession(masterKeyBytes);
+    return {
+      version: 1,
+      keyCheck: await this.computeKeyCheck(masterKeyBytes),
+      slots: [slot],
+      createdAt: Date.now()
+    };
+  }
+
+  private async derivePasskeyKek(prfOutput: BufferSource, usages: KeyUsage[]): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+      this.hkdfParams(PASSKEY_KEY_INFO),
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      usages
+    );
+  }
+
+  private notify(): void {
+    const unlocked = this.isUnlocked();
+    this.listeners.forEach(listener => listener(unlocked));
+  }
+
+  private async deriveIdentityWrappingKey(): Promise<CryptoKey> {
+    const { masterKeyBytes } = this.requireSession();
+    return await crypto.subtle.deriveKey(
+      this.hkdfParams(IDENTITY_WRAP_INFO),
+      await this.importMasterKey(masterKeyBytes),
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private requireSession(): VaultSession {
+    if (!this.session) {
+      throw new Error('Vault is locked');
+    }
+    return this.session;
+  }
+
+  private async importMasterKey(masterKeyBytes: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return await crypto.subtle.importKey('raw', masterKeyBytes, 'HKDF', false, ['deriveKey', 'deriveBits']);
+  }
+
+  private hkdfParams(info: string): HkdfParams {
+    return {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(info)
+    };
+  }
+
+  private async openVerifiedSession(
+    record: VaultRecord,
+    masterKeyBytes: Uint8Array<ArrayBuffer>
+  ): Promise<void> {
+    // A wrong signature derives a different key rather than failing outright
+    if (await this.computeKeyCheck(masterKeyBytes) !== record.keyCheck) {
+      throw new Error('Vault key check failed - wrong key or corrupted vault record');
+    }
+    await this.openSession(masterKeyBytes);
+  }
+
+  private async openSession(masterKeyBytes: Uint8Array<ArrayBuffer>): Promise<void> {
+    const masterKey = await this.importMasterKey(masterKeyBytes);
+    const wrappingKey = await crypto.subtle.deriveKey(
+      this.hkdfParams(WRAPPING_KEY_INFO),
+      masterKey,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+    this.session = { masterKeyBytes, wrappingKey };
+    this.notify();
+  }
+
+  private async computeKeyCheck(masterKeyBytes: Uint8Array<ArrayBuffer>): Promise<string> {
+    const masterKey = await this.importMasterKey(masterKeyBytes);
+    const bits = await crypto.subtle.deriveBits(this.hkdfParams(KEY_CHECK_INFO), masterKey, 128);
+    return EncryptionService.arrayBufferToBase64(bits);
+  }
+
+  private async createPasswordSlot(
+    masterKeyBytes: Uint8Array<ArrayBuffer>,
+    password: string
+  ): Promise<PasswordKeySlot> {
+    const salt = EncryptionService.generateSalt();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const kek = await EncryptionService.deriveKeyFromPassword(password, salt, CURRENT_KDF);
+    const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, kek, masterKeyBytes);
+
+    return {
+      type: 'password',
+      salt: EncryptionService.arrayBufferToBase64(salt.buffer),
+      kdf: CURRENT_KDF,
+      iv: EncryptionService.arrayBufferToBase64(iv.buffer),
+      wrappedKey: EncryptionService.arrayBufferToBase64(wrappedKey)
+    };
+  }
+}
+
+// Lowercase words with any spacing, numbering or punctuation from a copied list removed
+export function normalizeRecoveryPhrase(phrase: string): string[] {
+  return phrase.toLowerCase().split(/[^a-z]+/).filter(word => word.length > 0);
+}
+
+// Vault records for wallet-only sessions that have no Firestore profile
+export function loadLocalVaultRecord(id: string): VaultRecord | null {
+  const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + id);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function saveLocalVaultRecord(id: string, record: VaultRecord): void {
+  localStorage.setItem(LOCAL_STORAGE_PREFIX + id, JSON.stringify(record));
+}
+
+// Unwrap an AES-KW wrapped key. File keys come back extractable so they
+// can be re-wrapped for sharing; per-file wrapping keys never need to be.
+async function unwrapAesKey(
+  wrapped: WrappedFileKey,
+  unwrappingKey: CryptoKey,
+  algorithm: AesKeyAlgorithm | 'AES-KW',
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  if (wrapped.alg !== 'AES-KW') {
+    throw new Error(`Unsupported key wrapping algorithm: ${wrapped.alg}`);
+  }
+  return await crypto.subtle.unwrapKey(
+    'raw',
+    EncryptionService.base64ToArrayBuffer(wrapped.wrappedKey),
+    unwrappingKey,
+    'AES-KW',
+    algorithm,
+    algorithm !== 'AES-KW',
+    usages
+  );
+}
+
+// Create singleton instance
+export const vaultService = new VaultService();
+export default vaultService;
@@ -0,0 +1,72 @@
+import { EncryptionService } from '@/services/encryption';
+import type {
+  EncryptionProgress,
+  EncryptionWorkerRequest,
+  EncryptionWorkerResponse,
+  PreparedFileStream,
+} from '@/services/encryptionWorker';
+
+// Runs the encrypt, chunk and hash pipeline off the main thread for
+// prepareFileInWorker. Each 'pull' produces exactly one chunk.
+
+// Progress messages are rate limited so they do not flood the main thread
+const PROGRESS_INTERVAL_MS = 100;
+
+// The DOM lib types `self` as Window; a dedicated worker scope has the Worker interface
+const scope = self as unknown as Worker;
+
+let prepared: PreparedFileStream | null = null;
+let totalBytes = 0;
+let lastProgress = 0;
+
+function send(message: EncryptionWorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer);
+}
+
+function reportProgress(progress: EncryptionProgress, force = false): void {
+  const now = Date.now();
+  if (force || now - lastProgress >= PROGRESS_INTERVAL_MS) {
+    lastProgress = now;
+    send({ type: 'progress', progress });
+  }
+}
+
+async function handle(message: EncryptionWorkerRequest): Promise<void> {
+  switch (message.type) {
+    case 'start': {
+      const { file } = message;
+      totalBytes = file.size;
+      reportProgress({ phase: 'deriving-key', bytesProcessed: 0, totalBytes }, true);
+      prepared = await EncryptionService.prepareFileStreamForStorage(file, message.password, {
+        chunking: message.chunking,
+        convergenceKey: message.convergenceKey,
+        onProgress: bytesProcessed => reportProgress(
+          { phase: 'encrypting', bytesProcessed, totalBytes },
+          bytesProcessed === totalBytes
+        ),
+      });
+      send({ type: 'ready', key: prepared.key });
+      return;
+    }
+    case 'pull': {
+      if (!prepared) {
+        throw new Error('Encryption has not been started');
+      }
+      const next = await prepared.chunks.next();
+      if (next.done) {
+        reportProgress({ phase: 'finalizing', bytesProcessed: totalBytes, totalBytes }, true);
+        send({ type: 'end', metadata: await prepared.finalize() });
+      } else {
+        // Hand the buffer over instead of copying it
+        send({ type: 'chunk', chunk: next.value }, [next.value]);
+      }
+      return;
+    }
+  }
+}
+
+scope.onmessage = (event: MessageEvent<EncryptionWorkerRequest>) => {
+  handle(event.data).catch(error => {
+    send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};